@@ -0,0 +1,311 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { type Subscription, subscriptionKey } from './config';
+import { TradingViewClient, type Bar } from './tradingview';
+import { type Timeframe, parseTimeframe, formatTimeframe, timeframeSeconds } from './timeframe';
+
+// State of one locally aggregated timeframe
+interface Aggregation {
+  subscription: Subscription;
+  period: Timeframe;
+  // Start of the bucket being built (unix seconds), null until the first base bar arrives
+  bucketStart: number | null;
+  // Base bars of the current bucket indexed by time
+  baseBars: Map<number, Bar>;
+  // Set once the closed bar of the current bucket has been emitted
+  closed: boolean;
+}
+
+// A TradingView subscription shared by all timeframes aggregated from it
+interface BaseSource {
+  symbol: string;
+  timeframe: string;
+  period: Timeframe;
+  // Whether the aggregator created the base subscription and should remove it when unused
+  owned: boolean;
+  aggregations: Map<string, Aggregation>;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+// The unix epoch is a Thursday, weeks start on Monday 1970-01-05
+const WEEK_OFFSET = 4 * SECONDS_PER_DAY;
+
+// Standard minute and second timeframes considered as automatic base, largest first
+const MINUTE_BASES = [240, 120, 60, 30, 15, 5, 3, 1];
+const SECOND_BASES = [30, 15, 10, 5, 1];
+
+/**
+ * Start of the bucket containing `time`, aligned to the unix epoch
+ * (Mondays for weeks, calendar months for months). The exchange session is
+ * ignored, so buckets of markets that do not trade 24 hours differ from TradingView's.
+ */
+function bucketStart(time: number, period: Timeframe): number {
+  if (period.unit === 'month') {
+    const date = new Date(time * 1000);
+    const index = date.getUTCFullYear() * 12 + date.getUTCMonth();
+    const start = Math.floor(index / period.count) * period.count;
+    return Date.UTC(Math.floor(start / 12), start % 12, 1) / 1000;
+  }
+  const size = timeframeSeconds(period) as number;
+  const offset = period.unit === 'week' ? WEEK_OFFSET : 0;
+  return Math.floor((time - offset) / size) * size + offset;
+}
+
+function nextBucketStart(start: number, period: Timeframe): number {
+  if (period.unit === 'month') {
+    const date = new Date(start * 1000);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + period.count, 1) / 1000;
+  }
+  return start + (timeframeSeconds(period) as number);
+}
+
+// Check that every bucket of `target` is made of whole `base` periods
+function canAggregate(base: Timeframe, target: Timeframe): boolean {
+  if (target.unit === 'month') {
+    // Calendar months are made of whole days (and minutes or seconds), or of whole smaller month groups
+    if (base.unit === 'month') return base.count < target.count && target.count % base.count === 0;
+    return base.unit === 'second' || base.unit === 'minute' || (base.unit === 'day' && base.count === 1);
+  }
+  const baseSeconds = timeframeSeconds(base);
+  const targetSeconds = timeframeSeconds(target) as number;
+  if (baseSeconds === null) return false;
+  return baseSeconds < targetSeconds && targetSeconds % baseSeconds === 0;
+}
+
+// Pick the base timeframe used when the subscription does not specify one
+function defaultBase(target: Timeframe): Timeframe {
+  if (target.unit === 'second') {
+    const count = SECOND_BASES.find(c => c < target.count && target.count % c === 0);
+    if (!count) throw new Error(`Timeframe ${formatTimeframe(target)} cannot be aggregated`);
+    return { unit: 'second', count };
+  }
+  if (target.unit === 'minute') {
+    const count = MINUTE_BASES.find(c => c < target.count && target.count % c === 0);
+    if (!count) throw new Error(`Timeframe ${formatTimeframe(target)} cannot be aggregated`);
+    return { unit: 'minute', count };
+  }
+  if (target.count > 1) return { unit: target.unit, count: 1 };
+  if (target.unit === 'day') return { unit: 'minute', count: 60 };
+  return { unit: 'day', count: 1 };
+}
+
+// Periods of an aggregation and of the chart it is built from, throws if it cannot be aggregated
+function resolvePeriods(subscription: Subscription): { target: Timeframe; base: Timeframe } {
+  if (subscription.options) {
+    throw new Error('Chart options are not supported for aggregated timeframes');
+  }
+  const target = parseTimeframe(subscription.timeframe);
+  const base = subscription.baseTimeframe ? parseTimeframe(subscription.baseTimeframe) : defaultBase(target);
+  if (!canAggregate(base, target)) {
+    throw new Error(`Timeframe ${subscription.timeframe} cannot be aggregated from ${formatTimeframe(base)}`);
+  }
+  return { target, base };
+}
+
+/**
+ * Builds custom timeframes locally from a single TradingView subscription.
+ *
+ * Every derived timeframe of a symbol that uses the same base timeframe shares
+ * one TradingView chart. Aggregated bars are emitted as ordinary 'bar' and
+ * 'bar_closed' events.
+ */
+export class BarAggregator extends EventEmitter {
+  private tvClient: TradingViewClient;
+
+  // Base subscriptions indexed by symbol_timeframe
+  private bases: Map<string, BaseSource> = new Map();
+
+  constructor(tvClient: TradingViewClient) {
+    super();
+    this.tvClient = tvClient;
+
+    this.tvClient.on('bar', (bar: Bar) => this.onBaseBar(bar));
+    this.tvClient.on('bar_closed', (bar: Bar) => this.onBaseBar(bar));
+  }
+
+  /**
+   * Start aggregating symbol/timeframe, subscribing to the base timeframe if needed
+   */
+  async subscribe(subscription: Subscription): Promise<boolean> {
+    const { symbol, timeframe } = subscription;
+    if (this.has(symbol, timeframe)) {
+      logger.info('[AGG] Already aggregating %s/%s', symbol, timeframe);
+      return true;
+    }
+
+    let target: Timeframe;
+    let base: Timeframe;
+    try {
+      ({ target, base } = resolvePeriods(subscription));
+    } catch (err) {
+      logger.error('[AGG] Failed to aggregate %s/%s: %s', symbol, timeframe, (err as Error).message);
+      this.emit('subscription_error', { subscription, error: err });
+      return false;
+    }
+
+    const baseTimeframe = formatTimeframe(base);
+    const baseKey = `${symbol}_${baseTimeframe}`;
+    let source = this.bases.get(baseKey);
+    if (!source) {
+      const owned = !this.tvClient.hasSubscription(symbol, baseTimeframe);
+      const ok = await this.tvClient.subscribe({ symbol, timeframe: baseTimeframe }, 'aggregation');
+      if (!ok) return false;
+      source = { symbol, timeframe: baseTimeframe, period: base, owned, aggregations: new Map() };
+      this.bases.set(baseKey, source);
+    }
+
+    source.aggregations.set(timeframe, {
+      subscription: { ...subscription, aggregate: true, baseTimeframe },
+      period: target,
+      bucketStart: null,
+      baseBars: new Map(),
+      closed: false,
+    });
+    logger.info('[AGG] Aggregating %s/%s from %s (%d timeframes share this base)', symbol, timeframe, baseTimeframe, source.aggregations.size);
+    this.emit('subscribed', { symbol, timeframe, baseTimeframe });
+    return true;
+  }
+
+  /**
+   * Stop aggregating symbol/timeframe, removing the base subscription when no longer used
+   */
+  async unsubscribe(symbol: string, timeframe: string): Promise<boolean> {
+    for (const [baseKey, source] of this.bases.entries()) {
+      if (source.symbol !== symbol || !source.aggregations.delete(timeframe)) continue;
+
+      logger.info('[AGG] Stopped aggregating %s/%s', symbol, timeframe);
+      if (source.aggregations.size === 0) {
+        this.bases.delete(baseKey);
+        if (source.owned) {
+          logger.info('[AGG] Base %s/%s no longer used, unsubscribing', symbol, source.timeframe);
+          await this.tvClient.unsubscribe(symbol, source.timeframe);
+        }
+      }
+      this.emit('unsubscribed', { symbol, timeframe });
+      return true;
+    }
+    return false;
+  }
+
+  // Check if symbol/timeframe is aggregated locally
+  has(symbol: string, timeframe: string): boolean {
+    return this.getSubscriptions().some(s => s.symbol === symbol && s.timeframe === timeframe);
+  }
+
+  // Get the base timeframe symbol/timeframe is aggregated from, null if it is not aggregated
+  getBaseTimeframe(symbol: string, timeframe: string): string | null {
+    return this.getSubscriptions().find(s => s.symbol === symbol && s.timeframe === timeframe)?.baseTimeframe ?? null;
+  }
+
+  /**
+   * Chart a subscription is served from: its own, or the base chart of its aggregation
+   * (known as soon as subscribe() is called). Throws if it cannot be aggregated.
+   */
+  chartOf(subscription: Subscription): Subscription {
+    if (!subscription.aggregate) return subscription;
+    const { symbol, timeframe } = subscription;
+    const baseTimeframe = this.getBaseTimeframe(symbol, timeframe) ?? formatTimeframe(resolvePeriods(subscription).base);
+    return { symbol, timeframe: baseTimeframe };
+  }
+
+  // Check if symbol/timeframe is used as a base subscription
+  isBaseInUse(symbol: string, timeframe: string): boolean {
+    return this.bases.has(`${symbol}_${timeframe}`);
+  }
+
+  /**
+   * Set whether the aggregator should remove the base subscription once its last
+   * aggregated timeframe is gone (false while someone else also uses it directly)
+   */
+  setBaseOwned(symbol: string, timeframe: string, owned: boolean): void {
+    const source = this.bases.get(`${symbol}_${timeframe}`);
+    if (source) source.owned = owned;
+  }
+
+  // Get list of aggregated subscriptions
+  getSubscriptions(): Subscription[] {
+    return Array.from(this.bases.values())
+      .flatMap(source => Array.from(source.aggregations.values()).map(a => a.subscription));
+  }
+
+  // Get list of base subscriptions used for aggregation
+  getBaseSubscriptions(): Subscription[] {
+    return Array.from(this.bases.values()).map(s => ({ symbol: s.symbol, timeframe: s.timeframe }));
+  }
+
+  /**
+   * Handle a live or closed bar of a base timeframe
+   */
+  private onBaseBar(bar: Bar): void {
+    // Bars of charts with custom options (bar.options) never match a base
+    const source = this.bases.get(subscriptionKey(bar));
+    if (!source) return;
+
+    for (const aggregation of source.aggregations.values()) {
+      this.update(source, aggregation, bar);
+    }
+  }
+
+  private update(source: BaseSource, aggregation: Aggregation, bar: Bar): void {
+    const start = bucketStart(bar.time, aggregation.period);
+
+    if (aggregation.bucketStart === null) {
+      // First data: seed the bucket with the base bars the chart already loaded
+      aggregation.bucketStart = start;
+      for (const recent of this.tvClient.getRecentBars(source.symbol, source.timeframe)) {
+        if (bucketStart(recent.time, aggregation.period) === start) {
+          aggregation.baseBars.set(recent.time, recent);
+        }
+      }
+    } else if (start < aggregation.bucketStart) {
+      return; // Late update for a bucket that was already closed
+    } else if (start > aggregation.bucketStart) {
+      // A new bucket started: the previous one is final
+      this.emitClosed(aggregation, bar.backfilled);
+      aggregation.bucketStart = start;
+      aggregation.baseBars.clear();
+      aggregation.closed = false;
+    }
+
+    if (aggregation.closed) return;
+    aggregation.baseBars.set(bar.time, bar);
+
+    const bucketEnd = nextBucketStart(start, aggregation.period);
+    const baseEnd = nextBucketStart(bar.time, source.period);
+    if (bar.isClosed && baseEnd >= bucketEnd) {
+      // The last base bar of the bucket closed, no need to wait for the next bucket
+      this.emitClosed(aggregation, bar.backfilled);
+      return;
+    }
+
+    if (!bar.isClosed) {
+      this.emit('bar', this.buildBar(aggregation, false));
+    }
+  }
+
+  // Buckets closed by backfilled base bars are marked as backfilled too
+  private emitClosed(aggregation: Aggregation, backfilled?: boolean): void {
+    if (aggregation.closed || aggregation.baseBars.size === 0) return;
+    aggregation.closed = true;
+    const bar = this.buildBar(aggregation, true);
+    if (backfilled) bar.backfilled = true;
+    logger.debug('[AGG] Aggregated bar closed: %o', bar);
+    this.emit('bar_closed', bar);
+  }
+
+  // Combine the base bars of the current bucket into one bar
+  private buildBar(aggregation: Aggregation, isClosed: boolean): Bar {
+    const bars = Array.from(aggregation.baseBars.values()).sort((a, b) => a.time - b.time);
+    return {
+      symbol: aggregation.subscription.symbol,
+      timeframe: aggregation.subscription.timeframe,
+      time: aggregation.bucketStart as number,
+      open: bars[0].open,
+      high: Math.max(...bars.map(b => b.high)),
+      low: Math.min(...bars.map(b => b.low)),
+      close: bars[bars.length - 1].close,
+      volume: bars.reduce((sum, b) => sum + b.volume, 0),
+      isClosed,
+    };
+  }
+}
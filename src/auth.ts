@@ -0,0 +1,30 @@
+import { config, type WebSocketApiKey } from './config';
+
+// Whether WebSocket clients have to authenticate
+export function isAuthRequired(): boolean {
+  return config.websocket.auth.keys.length > 0;
+}
+
+// Find the configured API key matching a key or bearer token
+export function findApiKey(token: string | undefined | null): WebSocketApiKey | null {
+  if (!token) return null;
+  return config.websocket.auth.keys.find(k => k.key === token) || null;
+}
+
+// Convert a symbol pattern with '*' wildcards to a regular expression
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+// Check if an API key may access a symbol
+export function isSymbolAllowed(apiKey: WebSocketApiKey | null | undefined, symbol: string): boolean {
+  if (!apiKey || !apiKey.allowedSymbols || apiKey.allowedSymbols.length === 0) return true;
+  return apiKey.allowedSymbols.some(pattern => patternToRegExp(pattern).test(symbol));
+}
+
+// Check if a client holding an API key may add another subscription
+export function isWithinQuota(apiKey: WebSocketApiKey | null | undefined, currentSubscriptions: number): boolean {
+  if (!apiKey || !apiKey.maxSubscriptions) return true;
+  return currentSubscriptions < apiKey.maxSubscriptions;
+}
@@ -0,0 +1,102 @@
+import { logger } from './logger';
+import { config, subscriptionKey, type ChartOptions } from './config';
+import { TradingViewClient, type Bar } from './tradingview';
+import { BarAggregator } from './aggregator';
+import { normalizeTimeframe } from './timeframe';
+
+// Recent bars of one subscription
+interface BarBuffer {
+  // Closed bars, oldest first, at most `size`
+  closed: Bar[];
+  // Candle still in progress, null until the next update after a close
+  forming: Bar | null;
+}
+
+export interface BarQuery {
+  // Only bars that opened at or after this time (unix seconds)
+  since?: number;
+  // Only the latest `limit` bars
+  limit?: number;
+}
+
+/**
+ * Keeps the recent bars of every active subscription in memory, so that consumers
+ * get them right away instead of waiting for the next update.
+ *
+ * A buffer is seeded with the periods its chart already loaded, then follows every
+ * update (whatever the emission policy lets through) and closed bar, including those
+ * of aggregated timeframes. It is dropped when the subscription is removed.
+ */
+export class BarCache {
+  private tvClient: TradingViewClient;
+  private size: number;
+  private buffers: Map<string, BarBuffer> = new Map();
+
+  constructor(tvClient: TradingViewClient, aggregator: BarAggregator, size: number = config.barCache.size) {
+    this.tvClient = tvClient;
+    this.size = size;
+
+    this.tvClient.on('update', (bar: Bar) => this.add(bar));
+    this.tvClient.on('bar_closed', (bar: Bar) => this.add(bar));
+    this.tvClient.on('unsubscribed', (subscription) => this.drop(subscriptionKey(subscription)));
+    aggregator.on('bar', (bar: Bar) => this.add(bar));
+    aggregator.on('bar_closed', (bar: Bar) => this.add(bar));
+    aggregator.on('unsubscribed', (subscription) => this.drop(subscriptionKey(subscription)));
+  }
+
+  /**
+   * Get the cached bars of symbol/timeframe, oldest first: closed bars, then the forming one.
+   * Returns null if nothing is cached for it (no active subscription or no data yet).
+   */
+  getBars(symbol: string, timeframe: string, options?: ChartOptions, query: BarQuery = {}): Bar[] | null {
+    const buffer = this.buffers.get(subscriptionKey({ symbol, timeframe: normalizeTimeframe(timeframe), options }));
+    if (!buffer) return null;
+    let bars = buffer.forming ? [...buffer.closed, buffer.forming] : [...buffer.closed];
+    if (query.since !== undefined) bars = bars.filter(bar => bar.time >= query.since!);
+    if (query.limit !== undefined) bars = bars.slice(Math.max(0, bars.length - query.limit));
+    return bars;
+  }
+
+  // Get the number of cached subscriptions
+  getSize(): number {
+    return this.buffers.size;
+  }
+
+  private add(bar: Bar): void {
+    const key = subscriptionKey(bar);
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      buffer = { closed: [], forming: null };
+      this.buffers.set(key, buffer);
+      // Periods the chart loaded before its first update (none for aggregated timeframes)
+      const loaded = this.tvClient.getRecentBars(bar.symbol, bar.timeframe, bar.options);
+      for (const recent of loaded) this.insert(buffer, recent);
+      logger.debug('[BARS] Caching %s, seeded with %d bars', key, loaded.length);
+    }
+    this.insert(buffer, bar);
+  }
+
+  private insert(buffer: BarBuffer, bar: Bar): void {
+    const closed = buffer.closed;
+    const lastClosed = closed[closed.length - 1];
+    if (!bar.isClosed) {
+      if (!lastClosed || bar.time > lastClosed.time) buffer.forming = bar;
+      return;
+    }
+
+    if (buffer.forming && buffer.forming.time <= bar.time) buffer.forming = null;
+    // Closed bars arrive in order, except backfilled ones that may follow the seeded periods
+    let i = closed.length;
+    while (i > 0 && closed[i - 1].time > bar.time) i--;
+    if (i > 0 && closed[i - 1].time === bar.time) {
+      closed[i - 1] = bar;
+    } else {
+      closed.splice(i, 0, bar);
+      if (closed.length > this.size) closed.splice(0, closed.length - this.size);
+    }
+  }
+
+  private drop(key: string): void {
+    if (this.buffers.delete(key)) logger.debug('[BARS] Dropped cached bars of %s', key);
+  }
+}
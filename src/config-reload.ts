@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { config, loadConfig, subscriptionKey, type Config, type Subscription } from './config';
+
+// Settings applied without a restart, changing any other one rejects the reload
+const LIVE_SETTINGS = ['subscriptions'];
+
+// Editors write files in several steps, wait for them to finish before reading
+const WATCH_DEBOUNCE_MS = 500;
+
+// Difference between the configured subscriptions and those of the reloaded file
+export interface SubscriptionChanges {
+  subscriptions: Subscription[];
+  added: Subscription[];
+  removed: Subscription[];
+  // Still configured, with a different emission policy or base timeframe
+  updated: Subscription[];
+}
+
+// Paths of the settings that differ between two configurations (e.g. backend.batch.maxItems)
+function changedSettings(current: any, next: any, prefix = ''): string[] {
+  if (JSON.stringify(current) === JSON.stringify(next)) return [];
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  if (!isObject(current) || !isObject(next)) return [prefix];
+  const keys = new Set([...Object.keys(current), ...Object.keys(next)]);
+  return Array.from(keys).flatMap(key => changedSettings(current[key], next[key], prefix ? `${prefix}.${key}` : key));
+}
+
+// Compare two subscription lists by subscription key
+function diffSubscriptions(current: Subscription[], next: Subscription[]): SubscriptionChanges {
+  const currentByKey = new Map(current.map(s => [subscriptionKey(s), s]));
+  const nextKeys = new Set(next.map(subscriptionKey));
+  return {
+    subscriptions: next,
+    added: next.filter(s => !currentByKey.has(subscriptionKey(s))),
+    removed: current.filter(s => !nextKeys.has(subscriptionKey(s))),
+    updated: next.filter(s => {
+      const previous = currentByKey.get(subscriptionKey(s));
+      return previous !== undefined && JSON.stringify(previous) !== JSON.stringify(s);
+    }),
+  };
+}
+
+/**
+ * Reloads the config file when it changes (or on demand, e.g. on SIGHUP).
+ *
+ * Only subscriptions can change while running. A reload is rejected as a whole, keeping
+ * the running configuration, when the file is invalid or changes any other setting.
+ * Emits 'subscriptions' (SubscriptionChanges) when the configured subscriptions changed,
+ * it is up to the listener to update config.subscriptions and the charts.
+ */
+export class ConfigReloader extends EventEmitter {
+  private file: string;
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+
+  constructor(file: string) {
+    super();
+    this.file = file;
+  }
+
+  /**
+   * Reload the file whenever it is written. The directory is watched so that
+   * files replaced by editors or mounted config maps are still picked up.
+   */
+  watch(): void {
+    const name = path.basename(this.file);
+    try {
+      this.watcher = fs.watch(path.dirname(this.file), (_event, filename) => {
+        if (filename && filename.toString() !== name) return;
+        if (this.debounceTimer) clearTimeout(this.debounceTimer);
+        this.debounceTimer = setTimeout(() => {
+          this.debounceTimer = null;
+          this.reload('file_change');
+        }, WATCH_DEBOUNCE_MS);
+      });
+      logger.info('[CONFIG] Watching %s for changes', this.file);
+    } catch (err) {
+      logger.error('[CONFIG] Cannot watch %s, reload with SIGHUP instead: %s', this.file, (err as Error).message);
+    }
+  }
+
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Read the file again and apply its subscriptions. Returns false if the reload was rejected.
+   */
+  reload(reason: string): boolean {
+    let next: Config;
+    try {
+      next = loadConfig();
+    } catch (err) {
+      logger.error('[CONFIG] Reload (%s) rejected, keeping the running configuration. %s', reason, (err as Error).message);
+      return false;
+    }
+
+    const { subscriptions: _current, ...currentSettings } = config;
+    const { subscriptions: _next, ...nextSettings } = next;
+    const restartRequired = changedSettings(currentSettings, nextSettings)
+      .filter(setting => !LIVE_SETTINGS.some(live => setting === live || setting.startsWith(`${live}.`)));
+    if (restartRequired.length > 0) {
+      logger.error('[CONFIG] Reload (%s) rejected: %s cannot be changed without a restart (only %s can). Revert them or restart the process.',
+        reason, restartRequired.join(', '), LIVE_SETTINGS.join(', '));
+      return false;
+    }
+
+    const changes = diffSubscriptions(config.subscriptions, next.subscriptions);
+    if (changes.added.length === 0 && changes.removed.length === 0 && changes.updated.length === 0) {
+      logger.info('[CONFIG] Reloaded %s (%s), subscriptions unchanged', this.file, reason);
+      return true;
+    }
+    logger.info('[CONFIG] Reloaded %s (%s): %d subscriptions added, %d removed, %d updated',
+      this.file, reason, changes.added.length, changes.removed.length, changes.updated.length);
+    this.emit('subscriptions', changes);
+    return true;
+  }
+}
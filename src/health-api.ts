@@ -1,9 +1,33 @@
 import express from 'express';
 import { logger } from './logger';
-import { config } from './config';
+import { config, normalizeChartOptions, subscriptionKey, type ChartOptions, type Subscription, type WebSocketApiKey } from './config';
 import { TradingViewClient } from './tradingview';
 import { TradingViewHealthMonitor } from './health';
 import { staleSubscriptionsGauge } from './metrics';
+import { searchSymbols, SEARCH_TYPES } from './search';
+import { getTechnicalAnalysis } from './ta';
+import { SubscriptionRegistry, toRegistrySubscription, WS_OWNER_PREFIX } from './registry';
+import { getSinkStatuses } from './push';
+import { normalizeTimeframe } from './timeframe';
+import { BarAggregator } from './aggregator';
+import { BarCache } from './bar-cache';
+import { WebSocketServer } from './websocket';
+import { isAuthRequired, findApiKey, isSymbolAllowed, isWithinQuota } from './auth';
+
+// Owner of subscriptions added through the HTTP API when the request names none
+const API_OWNER = 'operator';
+
+// Owner shown for subscriptions of the configuration, which the API cannot remove
+const CONFIG_OWNER = 'config';
+
+// Addresses of requests made from the host itself
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Result of a subscription request, one per item of bulk requests
+interface SubscriptionResult {
+  status: number;
+  body: Record<string, unknown>;
+}
 
 // Health API server
 export class HealthApiServer {
@@ -11,6 +35,10 @@ export class HealthApiServer {
   private server: any;
   private tvClient: TradingViewClient | null = null;
   private healthMonitor: TradingViewHealthMonitor | null = null;
+  private registry: SubscriptionRegistry | null = null;
+  private aggregator: BarAggregator | null = null;
+  private barCache: BarCache | null = null;
+  private wsServer: WebSocketServer | null = null;
   
   constructor(port: number = config.health?.apiPort || 8082) {
     this.app = express();
@@ -19,6 +47,7 @@ export class HealthApiServer {
     this.app.get('/health', (req, res) => {
       // Basic health check
       const healthy = this.isHealthy();
+      const sinks = getSinkStatuses();
       
       const healthStatus = {
         status: healthy ? 'healthy' : 'unhealthy',
@@ -32,6 +61,11 @@ export class HealthApiServer {
           active: !!this.healthMonitor,
           stale_subscriptions: staleSubscriptionsGauge.get() || 0,
         },
+        // Failing sinks are reported but do not make the fetcher unhealthy
+        sinks: {
+          total: sinks.length,
+          unhealthy: sinks.filter(s => !s.healthy).map(s => s.name),
+        },
         timestamp: new Date().toISOString()
       };
       
@@ -51,6 +85,8 @@ export class HealthApiServer {
           connected: this.tvClient?.isConnected() || false,
           subscriptions_count: subscriptions.length,
           subscriptions: subscriptions,
+          connections: this.tvClient?.getConnectionStatus() || [],
+          auth: this.tvClient?.getAuthStatus() || null,
         },
         health_monitor: {
           active: !!this.healthMonitor,
@@ -58,23 +94,260 @@ export class HealthApiServer {
           check_interval_ms: config.health.checkIntervalMs,
           auto_recovery: config.health.autoRecoveryEnabled,
         },
+        sinks: getSinkStatuses(),
         timestamp: new Date().toISOString()
       };
       
       res.json(statusInfo);
     });
     
+    // Output sinks endpoint
+    this.app.get('/sinks', (req, res) => {
+      res.json({ sinks: getSinkStatuses() });
+    });
+    
+    // Symbol search endpoint
+    this.app.get('/symbols/search', (req, res) => {
+      const q = typeof req.query.q === 'string' ? req.query.q : '';
+      const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+      const exchange = typeof req.query.exchange === 'string' ? req.query.exchange : undefined;
+      
+      if (!q.trim()) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Query parameter q is required'
+        });
+      }
+      if (type && !SEARCH_TYPES.includes(type)) {
+        return res.status(400).json({
+          status: 'error',
+          message: `Invalid type, expected one of: ${SEARCH_TYPES.join(', ')}`
+        });
+      }
+      
+      searchSymbols(q, { type, exchange })
+        .then(results => {
+          res.json({ query: q, count: results.length, results });
+        })
+        .catch(err => {
+          logger.error('[HEALTH-API] Symbol search failed for "%s": %s', q, err.message);
+          res.status(502).json({
+            status: 'error',
+            message: `Symbol search failed: ${err.message}`
+          });
+        });
+    });
+    
+    // Technical analysis endpoint
+    this.app.get('/ta/:symbol', (req, res) => {
+      const auth = this.authenticate(req, res, false);
+      if (!auth) return;
+      const symbol = req.params.symbol;
+      if (!isSymbolAllowed(auth.apiKey, symbol)) {
+        return res.status(403).json({ status: 'error', message: `Symbol ${symbol} is not allowed for this API key` });
+      }
+      
+      getTechnicalAnalysis(symbol)
+        .then(analysis => {
+          res.json(analysis);
+        })
+        .catch(err => {
+          logger.error('[HEALTH-API] Technical analysis failed for %s: %s', symbol, err.message);
+          res.status(502).json({
+            status: 'error',
+            message: `Technical analysis failed: ${err.message}`
+          });
+        });
+    });
+    
+    // Cached recent bars of an active subscription: ?limit=&since= (unix seconds)&options= (JSON chart options)
+    this.app.get('/bars/:symbol/:timeframe', (req, res) => {
+      const auth = this.authenticate(req, res, false);
+      if (!auth) return;
+      if (!isSymbolAllowed(auth.apiKey, req.params.symbol)) {
+        return res.status(403).json({ status: 'error', message: `Symbol ${req.params.symbol} is not allowed for this API key` });
+      }
+      if (!this.barCache) {
+        return res.status(503).json({
+          status: 'error',
+          message: 'Bar cache not available'
+        });
+      }
+      const { limit, since, options: rawOptions } = req.query;
+      if ((limit !== undefined && !(Number(limit) > 0)) || (since !== undefined && !(Number(since) >= 0))) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'limit must be a positive number and since a unix time in seconds'
+        });
+      }
+      let timeframe: string;
+      let options: ChartOptions | undefined;
+      try {
+        timeframe = normalizeTimeframe(req.params.timeframe);
+        options = rawOptions !== undefined ? normalizeChartOptions(JSON.parse(String(rawOptions))) : undefined;
+      } catch (err) {
+        return res.status(400).json({
+          status: 'error',
+          message: (err as Error).message
+        });
+      }
+      
+      const symbol = req.params.symbol;
+      const bars = this.barCache.getBars(symbol, timeframe, options, {
+        limit: limit !== undefined ? Math.floor(Number(limit)) : undefined,
+        since: since !== undefined ? Number(since) : undefined,
+      });
+      if (!bars) {
+        return res.status(404).json({
+          status: 'error',
+          message: `No bars cached for ${symbol}/${timeframe}, it is not subscribed or has no data yet`
+        });
+      }
+      res.json({ symbol, timeframe, options, count: bars.length, bars });
+    });
+    
+    // Subscription registry: list entries with their owners
+    this.app.get('/registry', (req, res) => {
+      if (!this.registry) {
+        return res.status(503).json({
+          status: 'error',
+          message: 'Subscription registry not available'
+        });
+      }
+      const entries = this.registry.list();
+      res.json({ file: this.registry.getFile() || null, count: entries.length, entries });
+    });
+    
+    // Register a subscription (or an additional owner of it), the subscription is started if needed
+    this.app.post('/registry', express.json(), (req, res) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) return;
+      const parsed = this.parseRegistryRequest(req.body);
+      if ('error' in parsed) {
+        return res.status(parsed.status).json({ status: 'error', message: parsed.error });
+      }
+      const owner = this.resolveOwner(parsed.owner, auth.apiKey);
+      if (typeof owner !== 'string') {
+        return res.status(owner.status).json({ status: 'error', message: owner.error });
+      }
+      const denied = this.checkAccess(parsed.subscription, owner, auth.apiKey);
+      if (denied) {
+        return res.status(denied.status).json({ status: 'error', message: denied.error });
+      }
+      
+      const created = !this.registry!.has(subscriptionKey(parsed.subscription));
+      const entry = this.registry!.addOwner(parsed.subscription, owner);
+      logger.info('[HEALTH-API] Registered %s for owner %s', entry.key, owner);
+      res.status(created ? 201 : 200).json({ status: 'success', entry });
+    });
+    
+    // Remove an owner of a subscription, or the whole subscription when no owner is given
+    // (API key holders only ever remove their own owner)
+    this.app.delete('/registry', express.json(), (req, res) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) return;
+      const parsed = this.parseRegistryRequest(req.body);
+      if ('error' in parsed) {
+        return res.status(parsed.status).json({ status: 'error', message: parsed.error });
+      }
+      let owner = parsed.owner;
+      if (auth.apiKey) {
+        const resolved = this.resolveOwner(owner, auth.apiKey);
+        if (typeof resolved !== 'string') {
+          return res.status(resolved.status).json({ status: 'error', message: resolved.error });
+        }
+        owner = resolved;
+      }
+      
+      const key = subscriptionKey(parsed.subscription);
+      const removed = owner
+        ? this.registry!.removeOwner(key, owner)
+        : !!this.registry!.remove(key);
+      if (!removed) {
+        return res.status(404).json({
+          status: 'error',
+          message: owner ? `Owner ${owner} not registered for ${key}` : `Subscription ${key} not registered`
+        });
+      }
+      logger.info('[HEALTH-API] Unregistered %s%s', key, owner ? ` for owner ${owner}` : '');
+      res.json({ status: 'success', key, entry: this.registry!.get(key) || null });
+    });
+    
+    // Server-owned subscriptions (configured and registered) with the state of their chart
+    this.app.get('/subscriptions', (req, res) => {
+      if (!this.registry) {
+        return res.status(503).json({
+          status: 'error',
+          message: 'Subscription registry not available'
+        });
+      }
+      const subscriptions = this.listSubscriptions();
+      res.json({ count: subscriptions.length, subscriptions });
+    });
+    
+    // Add a server-owned subscription, answered once TradingView loaded (or rejected) its chart
+    this.app.post('/subscriptions', express.json(), async (req, res) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) return;
+      const result = await this.addSubscription(req.body, auth.apiKey);
+      res.status(result.status).json(result.body);
+    });
+    
+    // Add several subscriptions: { subscriptions: [...], owner? }, with a result per subscription
+    this.app.post('/subscriptions/bulk', express.json(), async (req, res) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) return;
+      const items = this.parseBulkRequest(req.body);
+      if ('error' in items) {
+        return res.status(400).json({ status: 'error', message: items.error });
+      }
+      const results = await Promise.all(items.map(item => this.addSubscription(item, auth.apiKey)));
+      res.status(this.bulkStatus(results)).json({ status: 'success', results: results.map(r => ({ code: r.status, ...r.body })) });
+    });
+    
+    // Release a server-owned subscription, its chart is closed when nobody else uses it
+    this.app.delete('/subscriptions', express.json(), (req, res) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) return;
+      const result = this.removeSubscription(req.body, auth.apiKey);
+      res.status(result.status).json(result.body);
+    });
+    
+    // Release several subscriptions: { subscriptions: [...], owner? }, with a result per subscription
+    this.app.delete('/subscriptions/bulk', express.json(), (req, res) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) return;
+      const items = this.parseBulkRequest(req.body);
+      if ('error' in items) {
+        return res.status(400).json({ status: 'error', message: items.error });
+      }
+      const results = items.map(item => this.removeSubscription(item, auth.apiKey));
+      res.status(this.bulkStatus(results)).json({ status: 'success', results: results.map(r => ({ code: r.status, ...r.body })) });
+    });
+    
     // Recovery trigger endpoint - for manual recovery
     this.app.post('/recovery/subscription', express.json(), (req, res) => {
-      const { symbol, timeframe } = req.body;
+      const { symbol } = req.body;
       
-      if (!symbol || !timeframe) {
+      if (!symbol || !req.body.timeframe) {
         return res.status(400).json({
           status: 'error',
           message: 'Symbol and timeframe are required'
         });
       }
       
+      let timeframe: string;
+      let options: ChartOptions | undefined;
+      try {
+        timeframe = normalizeTimeframe(req.body.timeframe);
+        options = normalizeChartOptions(req.body.options);
+      } catch (err) {
+        return res.status(400).json({
+          status: 'error',
+          message: (err as Error).message
+        });
+      }
+      
       if (!this.tvClient) {
         return res.status(503).json({
           status: 'error',
@@ -83,11 +356,11 @@ export class HealthApiServer {
       }
       
       // Trigger manual recovery
-      const subscription = { symbol, timeframe };
+      const subscription = options ? { symbol, timeframe, options } : { symbol, timeframe };
       logger.info('[HEALTH-API] Manual recovery request for %s/%s', symbol, timeframe);
       
       // Unsubscribe and resubscribe
-      this.tvClient.unsubscribe(symbol, timeframe)
+      this.tvClient.unsubscribe(symbol, timeframe, options, 'recovery')
         .then(() => new Promise(resolve => setTimeout(resolve, 1000)))
         .then(() => this.tvClient?.subscribe(subscription, 'manual_recovery'))
         .then(success => {
@@ -165,6 +438,247 @@ export class HealthApiServer {
     this.healthMonitor = monitor;
   }
   
+  /**
+   * Set the subscription registry exposed by the /registry endpoints
+   */
+  public setRegistry(registry: SubscriptionRegistry): void {
+    this.registry = registry;
+  }
+  
+  /**
+   * Set the aggregator, to report aggregated subscriptions with the state of their base chart
+   */
+  public setAggregator(aggregator: BarAggregator): void {
+    this.aggregator = aggregator;
+  }
+  
+  /**
+   * Set the bar cache served by the /bars endpoint
+   */
+  public setBarCache(cache: BarCache): void {
+    this.barCache = cache;
+  }
+  
+  /**
+   * Set the WebSocket server, whose subscriptions count towards the quota of API keys
+   */
+  public setWebSocketServer(server: WebSocketServer): void {
+    this.wsServer = server;
+  }
+  
+  // Configured and registered subscriptions, with their owners and state
+  private listSubscriptions(): Record<string, unknown>[] {
+    const entries = new Map<string, Subscription & { key: string; owners: string[] }>();
+    for (const subscription of config.subscriptions) {
+      const key = subscriptionKey(subscription);
+      entries.set(key, { ...subscription, key, owners: [CONFIG_OWNER] });
+    }
+    for (const entry of this.registry!.list()) {
+      const configured = entries.has(entry.key);
+      entries.set(entry.key, { ...entry, owners: configured ? [CONFIG_OWNER, ...entry.owners] : entry.owners });
+    }
+    return Array.from(entries.values()).map(entry => ({ ...entry, state: this.getSubscriptionState(entry) }));
+  }
+  
+  /**
+   * State of a subscription: chart load state, last bar, staleness and recovery attempts.
+   * Aggregated subscriptions report the chart they are built from.
+   */
+  private getSubscriptionState(subscription: Subscription): Record<string, unknown> {
+    let chart: Subscription | null = subscription;
+    if (this.aggregator) {
+      try {
+        chart = this.aggregator.chartOf(subscription);
+      } catch {
+        chart = null;
+      }
+    }
+    const chartState = chart && this.tvClient?.getChartState(chart.symbol, chart.timeframe, chart.options);
+    const lastBar = chart && this.tvClient?.getLastBar(chart.symbol, chart.timeframe, chart.options);
+    const health = chart && this.healthMonitor?.getSubscriptionHealth(chart);
+    return {
+      chart: chartState?.status || 'inactive',
+      error: chartState?.error || null,
+      base_timeframe: chart && chart.timeframe !== subscription.timeframe ? chart.timeframe : undefined,
+      last_bar_time: lastBar ? new Date(lastBar.time * 1000).toISOString() : null,
+      last_data_at: health ? new Date(health.lastDataAt).toISOString() : null,
+      stale: health?.stale || false,
+      stale_threshold_seconds: health ? health.staleThresholdMs / 1000 : null,
+      recovery_attempts: health?.recoveryAttempts || 0,
+    };
+  }
+  
+  /**
+   * Register a subscription for an API owner and wait for its chart. A subscription
+   * created by the request is removed again when TradingView rejects its chart.
+   */
+  private async addSubscription(body: any, apiKey: WebSocketApiKey | null): Promise<SubscriptionResult> {
+    const parsed = this.parseRegistryRequest(body);
+    if ('error' in parsed) {
+      return { status: parsed.status, body: { status: 'error', message: parsed.error } };
+    }
+    const owner = this.resolveOwner(parsed.owner, apiKey);
+    if (typeof owner !== 'string') {
+      return { status: owner.status, body: { status: 'error', message: owner.error } };
+    }
+    const denied = this.checkAccess(parsed.subscription, owner, apiKey);
+    if (denied) {
+      return { status: denied.status, body: { status: 'error', message: denied.error } };
+    }
+    
+    const key = subscriptionKey(parsed.subscription);
+    const created = !this.registry!.has(key);
+    const entry = this.registry!.addOwner(parsed.subscription, owner);
+    try {
+      const chart = this.aggregator ? this.aggregator.chartOf(entry) : entry;
+      if (!this.tvClient) throw new Error('TradingView client not available');
+      await this.tvClient.waitForChart(chart);
+    } catch (err) {
+      const message = (err as Error).message;
+      if (created) {
+        this.registry!.removeOwner(key, owner);
+        logger.warn('[HEALTH-API] Failed to subscribe to %s: %s', key, message);
+        return { status: 422, body: { status: 'error', key, message } };
+      }
+      // Already running for other owners: keep it and report its state
+      logger.warn('[HEALTH-API] Subscription %s has no loaded chart: %s', key, message);
+    }
+    logger.info('[HEALTH-API] Subscribed to %s for owner %s', key, owner);
+    return {
+      status: created ? 201 : 200,
+      body: { status: 'success', subscription: { ...entry, state: this.getSubscriptionState(entry) } }
+    };
+  }
+  
+  // Remove an API owner of a subscription, the subscription stops with its last owner
+  private removeSubscription(body: any, apiKey: WebSocketApiKey | null): SubscriptionResult {
+    const parsed = this.parseRegistryRequest(body);
+    if ('error' in parsed) {
+      return { status: parsed.status, body: { status: 'error', message: parsed.error } };
+    }
+    const owner = this.resolveOwner(parsed.owner, apiKey);
+    if (typeof owner !== 'string') {
+      return { status: owner.status, body: { status: 'error', message: owner.error } };
+    }
+    const key = subscriptionKey(parsed.subscription);
+    if (!this.registry!.removeOwner(key, owner)) {
+      const configured = config.subscriptions.some(s => subscriptionKey(s) === key);
+      return {
+        status: 404,
+        body: {
+          status: 'error',
+          key,
+          message: configured && !this.registry!.has(key)
+            ? `Subscription ${key} is configured, remove it from the configuration instead`
+            : `Owner ${owner} not registered for ${key}`
+        }
+      };
+    }
+    logger.info('[HEALTH-API] Unsubscribed %s for owner %s', key, owner);
+    const entry = this.registry!.get(key);
+    return { status: 200, body: { status: 'success', key, active: !!entry, owners: entry?.owners || [] } };
+  }
+  
+  /**
+   * Authorize a request for market data or one that changes subscriptions (`localOnly`).
+   * When API keys are configured it needs an `Authorization: Bearer <key>` header, otherwise
+   * requests that change subscriptions must come from the host itself.
+   * Answers the request and returns null when it is rejected.
+   */
+  private authenticate(req: express.Request, res: express.Response, localOnly: boolean = true): { apiKey: WebSocketApiKey | null } | null {
+    if (isAuthRequired()) {
+      const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+      const apiKey = findApiKey(match?.[1].trim());
+      if (!apiKey) {
+        res.status(401).set('WWW-Authenticate', 'Bearer').json({ status: 'error', message: 'Missing or invalid API key' });
+        return null;
+      }
+      return { apiKey };
+    }
+    if (localOnly && !LOOPBACK_ADDRESSES.has(req.socket.remoteAddress || '')) {
+      logger.warn('[HEALTH-API] Rejected %s %s from %s, only local requests may change subscriptions without API keys',
+        req.method, req.path, req.socket.remoteAddress);
+      res.status(403).json({
+        status: 'error',
+        message: 'Subscriptions can only be changed from localhost unless WEBSOCKET_API_KEYS is set'
+      });
+      return null;
+    }
+    return { apiKey: null };
+  }
+  
+  /**
+   * Owner a request acts for: the requested one (default `operator`) for local requests,
+   * the key name for API key holders, who cannot act for other owners
+   */
+  private resolveOwner(owner: string | undefined, apiKey: WebSocketApiKey | null): string | { status: number; error: string } {
+    if (apiKey) {
+      const keyOwner = apiKey.name!;
+      if (owner !== undefined && owner !== keyOwner) {
+        return { status: 403, error: `This API key can only act for owner ${keyOwner}` };
+      }
+      return keyOwner;
+    }
+    if (owner && owner.startsWith(WS_OWNER_PREFIX)) {
+      return { status: 400, error: `Owners starting with "${WS_OWNER_PREFIX}" are reserved for WebSocket clients` };
+    }
+    return owner || API_OWNER;
+  }
+  
+  /**
+   * Check the symbol permissions and subscription quota of an API key before adding a subscription
+   * for its owner. The quota counts what the key holds over HTTP and WebSocket, a subscription
+   * it already holds is free.
+   */
+  private checkAccess(subscription: Subscription, owner: string, apiKey: WebSocketApiKey | null): { status: number; error: string } | null {
+    if (!isSymbolAllowed(apiKey, subscription.symbol)) {
+      return { status: 403, error: `Symbol ${subscription.symbol} is not allowed for this API key` };
+    }
+    if (!apiKey?.maxSubscriptions) {
+      return null;
+    }
+    const held = this.wsServer
+      ? this.wsServer.getKeySubscriptions(apiKey)
+      : new Set(this.registry!.list().filter(entry => entry.owners.includes(owner)).map(entry => `bar:${entry.key}`));
+    if (held.has(`bar:${subscriptionKey(subscription)}`)) {
+      return null;
+    }
+    if (!isWithinQuota(apiKey, held.size)) {
+      return { status: 429, error: `Subscription limit of ${apiKey.maxSubscriptions} reached for this API key` };
+    }
+    return null;
+  }
+  
+  // Items of a bulk request, the request owner applies to items that name none
+  private parseBulkRequest(body: any): any[] | { error: string } {
+    if (!Array.isArray(body?.subscriptions) || body.subscriptions.length === 0) {
+      return { error: 'subscriptions must be a non-empty array' };
+    }
+    return body.subscriptions.map((item: any) =>
+      body.owner !== undefined && item && typeof item === 'object' && item.owner === undefined ? { ...item, owner: body.owner } : item
+    );
+  }
+  
+  // 200 when every item succeeded, 207 (Multi-Status) otherwise
+  private bulkStatus(results: SubscriptionResult[]): number {
+    return results.every(r => r.status < 300) ? 200 : 207;
+  }
+  
+  // Validate the body of a registry request
+  private parseRegistryRequest(body: any): { subscription: Subscription; owner?: string } | { status: number; error: string } {
+    if (!this.registry) {
+      return { status: 503, error: 'Subscription registry not available' };
+    }
+    if (body?.owner !== undefined && (typeof body.owner !== 'string' || !body.owner)) {
+      return { status: 400, error: 'owner must be a non-empty string' };
+    }
+    try {
+      return { subscription: toRegistrySubscription(body), owner: body.owner };
+    } catch (err) {
+      return { status: 400, error: (err as Error).message };
+    }
+  }
+  
   /**
    * Check if the service is healthy
    */
@@ -3,7 +3,8 @@ import { config } from './config';
 import { EventEmitter } from 'events';
 import { TradingViewClient } from './tradingview';
 import { type Bar } from './tradingview';
-import { type Subscription } from './config';
+import { type Subscription, subscriptionKey } from './config';
+import { timeframeDurationMs } from './timeframe';
 import { 
   staleSubscriptionsGauge, 
   recoveryAttemptsTotal, 
@@ -40,6 +41,15 @@ export interface HealthMonitorConfig {
   apiPort: number;
 }
 
+// Health of one subscription, as seen by the monitor
+export interface SubscriptionHealth {
+  // Last time data was received, or the subscription (re)started (unix milliseconds)
+  lastDataAt: number;
+  stale: boolean;
+  staleThresholdMs: number;
+  recoveryAttempts: number;
+}
+
 // Default configuration values - NOTE: These are just for type checking.
 // The actual defaults are in config.ts to avoid circular dependencies.
 const DEFAULT_CONFIG: HealthMonitorConfig = {
@@ -52,19 +62,6 @@ const DEFAULT_CONFIG: HealthMonitorConfig = {
   apiPort: 8082, // Health API port
 };
 
-/**
- * Converts a timeframe string to milliseconds
- */
-function timeframeToMs(timeframe: string): number {
-  // Convert TradingView timeframe to milliseconds
-  if (timeframe === 'D') return 24 * 60 * 60 * 1000; // 1 day
-  if (timeframe === 'W') return 7 * 24 * 60 * 60 * 1000; // 1 week
-  if (timeframe === 'M') return 30 * 24 * 60 * 60 * 1000; // ~1 month
-  
-  // Minutes (1, 5, 15, 30, 60, 120, 240, etc.)
-  return parseInt(timeframe) * 60 * 1000;
-}
-
 /**
  * Health monitor for TradingView data flow
  * 
@@ -92,7 +89,7 @@ export class TradingViewHealthMonitor extends EventEmitter {
     this.config = config;
 
     // Subscribe to TradingView events
-    this.tvClient.on('bar', this.onBar.bind(this));
+    this.tvClient.on('update', this.onBar.bind(this));
     this.tvClient.on('subscribed', this.onSubscribed.bind(this));
     this.tvClient.on('unsubscribed', this.onUnsubscribed.bind(this));
     this.tvClient.on('connect', this.onConnect.bind(this));
@@ -130,7 +127,7 @@ export class TradingViewHealthMonitor extends EventEmitter {
     }
     
     // Cleanup event listeners
-    this.tvClient.removeAllListeners('bar');
+    this.tvClient.removeAllListeners('update');
     this.tvClient.removeAllListeners('subscribed');
     this.tvClient.removeAllListeners('unsubscribed');
     this.tvClient.removeAllListeners('connect');
@@ -139,11 +136,27 @@ export class TradingViewHealthMonitor extends EventEmitter {
     logger.info('[HEALTH] Health monitor stopped');
   }
 
+  /**
+   * Get the health of a subscription, null if it is not monitored (no chart)
+   */
+  public getSubscriptionHealth(subscription: Subscription): SubscriptionHealth | null {
+    const key = subscriptionKey(subscription);
+    const lastDataAt = this.lastBarTimestamps.get(key);
+    if (lastDataAt === undefined) return null;
+    const staleThresholdMs = this.staleThresholdMs(subscription);
+    return {
+      lastDataAt,
+      stale: Date.now() - lastDataAt > staleThresholdMs,
+      staleThresholdMs,
+      recoveryAttempts: this.recoveryAttempts.get(key) || 0,
+    };
+  }
+
   /**
    * Handle new bar event
    */
   private onBar(bar: Bar): void {
-    const key = `${bar.symbol}_${bar.timeframe}`;
+    const key = subscriptionKey(bar);
     const now = Date.now();
     this.lastBarTimestamps.set(key, now);
     this.recoveryAttempts.delete(key); // Reset recovery attempts on successful data
@@ -157,7 +170,7 @@ export class TradingViewHealthMonitor extends EventEmitter {
    * Handle subscription event
    */
   private onSubscribed(subscription: Subscription): void {
-    const key = `${subscription.symbol}_${subscription.timeframe}`;
+    const key = subscriptionKey(subscription);
     this.lastBarTimestamps.set(key, Date.now()); // Initialize with current time
     logger.info('[HEALTH] New subscription to %s/%s, initialized health tracking', subscription.symbol, subscription.timeframe);
   }
@@ -165,8 +178,9 @@ export class TradingViewHealthMonitor extends EventEmitter {
   /**
    * Handle unsubscription event
    */
-  private onUnsubscribed({ symbol, timeframe }: { symbol: string, timeframe: string }): void {
-    const key = `${symbol}_${timeframe}`;
+  private onUnsubscribed(subscription: Subscription): void {
+    const { symbol, timeframe } = subscription;
+    const key = subscriptionKey(subscription);
     this.lastBarTimestamps.delete(key);
     this.recoveryAttempts.delete(key);
     logger.info('[HEALTH] Removed health tracking for unsubscribed %s/%s', symbol, timeframe);
@@ -194,6 +208,11 @@ export class TradingViewHealthMonitor extends EventEmitter {
     // The reconnection will be handled by the TradingViewClient
   }
 
+  // How long a subscription can go without data before it is stale
+  private staleThresholdMs(subscription: Subscription): number {
+    return timeframeDurationMs(subscription.timeframe) * this.config.staleThresholdMultiplier;
+  }
+
   /**
    * Check the health of all active subscriptions
    */
@@ -213,7 +232,7 @@ export class TradingViewHealthMonitor extends EventEmitter {
     const staleSubscriptions: Subscription[] = [];
     
     for (const sub of subscriptions) {
-      const key = `${sub.symbol}_${sub.timeframe}`;
+      const key = subscriptionKey(sub);
       const lastTimestamp = this.lastBarTimestamps.get(key);
       
       if (!lastTimestamp) {
@@ -223,8 +242,7 @@ export class TradingViewHealthMonitor extends EventEmitter {
         continue;
       }
       
-      const expectedIntervalMs = timeframeToMs(sub.timeframe);
-      const staleThresholdMs = expectedIntervalMs * this.config.staleThresholdMultiplier;
+      const staleThresholdMs = this.staleThresholdMs(sub);
       const timeSinceLastBar = now - lastTimestamp;
       
       // Update metrics for time since last data
@@ -293,7 +311,7 @@ export class TradingViewHealthMonitor extends EventEmitter {
    */
   private async attemptRecovery(subscription: Subscription): Promise<boolean> {
     const { symbol, timeframe } = subscription;
-    const key = `${symbol}_${timeframe}`;
+    const key = subscriptionKey(subscription);
     
     // Get current recovery attempts, defaulting to 0 if not present
     const attempts = this.recoveryAttempts.get(key) || 0;
@@ -318,7 +336,7 @@ export class TradingViewHealthMonitor extends EventEmitter {
     
     try {
       // Try to unsubscribe and resubscribe
-      await this.tvClient.unsubscribe(symbol, timeframe);
+      await this.tvClient.unsubscribe(symbol, timeframe, subscription.options, 'recovery');
       await new Promise(resolve => setTimeout(resolve, 1000)); // Give it a moment
       const success = await this.tvClient.subscribe(subscription, 'health_recovery');
       
@@ -1,14 +1,20 @@
 import { config } from './config';
 import { logger } from './logger';
 import { startMetricsServer } from './metrics';
-import { TradingViewClient } from './tradingview';
-import { pushBar, setWebSocketServer, setTradingViewClient } from './push';
-import { WebSocketServer } from './websocket';
+import { TradingViewClient, indicatorId } from './tradingview';
+import { pushBar, pushReplayBar, pushQuote, pushIndicator, pushTAChange, setWebSocketServer, setTradingViewClient, startSinks, stopSinks } from './push';
+import { WebSocketServer, MessageType } from './websocket';
 import { TradingViewHealthMonitor } from './health';
 import { HealthApiServer } from './health-api';
+import { BarAggregator } from './aggregator';
+import { BarCache } from './bar-cache';
+import { TAPoller } from './ta';
+import { SubscriptionRegistry } from './registry';
+import { ConfigReloader, type SubscriptionChanges } from './config-reload';
+import { type Subscription, subscriptionKey, redactConfig, CONFIG_FILE } from './config';
 
 logger.info('tv-fetcher starting...');
-logger.info('Config: %o', config);
+logger.info('Config: %o', redactConfig(config));
 
 // Start metrics server for monitoring
 const metricsPort = config.metrics.port;
@@ -23,22 +29,257 @@ let healthMonitor: TradingViewHealthMonitor;
 // Health API server
 let healthApiServer: HealthApiServer;
 
+// Local aggregation of custom timeframes
+let aggregator: BarAggregator;
+
+// Recent bars of every subscription, for GET /bars and WebSocket snapshots
+let barCache: BarCache;
+
+// Technical analysis poller (only when TA symbols are configured)
+let taPoller: TAPoller | null = null;
+
+// Active subscriptions and their owners, persisted across restarts
+const registry = new SubscriptionRegistry(config.registry.file, config.registry.restoreGraceMs);
+
+// Subscriptions that must stay active regardless of WebSocket clients
+function baselineSubscriptions(): Subscription[] {
+  return [
+    ...config.subscriptions.filter(s => !s.aggregate),
+    ...registry.getSubscriptions().filter(s => !s.aggregate),
+    ...aggregator.getBaseSubscriptions(),
+    ...tvClient.getIndicatorSubscriptions().map(({ symbol, timeframe }) => ({ symbol, timeframe })),
+  ];
+}
+
+// Remove a chart once nothing uses it, keeping it for configured and registered subscriptions, WebSocket clients, indicators and aggregations
+async function releaseChart(subscription: Subscription): Promise<void> {
+  const { symbol, timeframe, options } = subscription;
+  const key = subscriptionKey(subscription);
+  if (!tvClient.hasSubscription(symbol, timeframe, options)) {
+    return;
+  }
+  // Indicators and aggregations only use charts without custom options
+  if (!options && tvClient.hasIndicators(symbol, timeframe)) {
+    logger.info('Keeping %s, still used by indicators', key);
+    return;
+  }
+  if (wsServer?.hasSubscribers(subscription)) {
+    return;
+  }
+  if (config.subscriptions.some(s => !s.aggregate && subscriptionKey(s) === key)) {
+    logger.info('Keeping %s, configured subscription', key);
+    return;
+  }
+  if (registry.has(key)) {
+    logger.info('Keeping %s, registered subscription', key);
+    return;
+  }
+  if (!options && aggregator.isBaseInUse(symbol, timeframe)) {
+    // Keep the chart for the aggregations, they remove it once they are gone
+    aggregator.setBaseOwned(symbol, timeframe, true);
+    logger.info('Keeping %s, still used as aggregation base', key);
+    return;
+  }
+  await tvClient.unsubscribe(symbol, timeframe, options);
+}
+
+// Stop an aggregation or release a chart that lost its last WebSocket client or registry owner
+async function releaseSubscription(subscription: Subscription): Promise<void> {
+  const { symbol, timeframe } = subscription;
+  if (!subscription.options && aggregator.has(symbol, timeframe)) {
+    if (registry.has(subscriptionKey(subscription)) || wsServer?.hasSubscribers(subscription)) {
+      return;
+    }
+    await aggregator.unsubscribe(symbol, timeframe);
+    return;
+  }
+  await releaseChart(subscription);
+}
+
+// Subscribe to an aggregation or a chart
+async function acquireSubscription(subscription: Subscription): Promise<void> {
+  if (subscription.aggregate) {
+    await aggregator.subscribe(subscription);
+    return;
+  }
+  // A direct subscription must outlive the aggregations sharing its chart
+  if (!subscription.options) {
+    aggregator.setBaseOwned(subscription.symbol, subscription.timeframe, false);
+  }
+  await tvClient.subscribe(subscription);
+}
+
+/**
+ * Apply the subscriptions of a reloaded config file: charts are synced with updateSubscriptions,
+ * keeping those of registry owners, WebSocket clients, indicators and aggregations
+ */
+async function applySubscriptionChanges({ added, removed, updated }: SubscriptionChanges): Promise<void> {
+  for (const subscription of removed.filter(s => s.aggregate)) {
+    await releaseSubscription(subscription);
+  }
+  for (const { symbol, timeframe, options } of removed.filter(s => !s.aggregate)) {
+    // Aggregations sharing the chart now remove it once they are gone
+    const key = subscriptionKey({ symbol, timeframe, options });
+    if (!options && !registry.has(key) && !wsServer?.hasSubscribers({ symbol, timeframe })) {
+      aggregator.setBaseOwned(symbol, timeframe, true);
+    }
+  }
+  for (const { symbol, timeframe, options } of added.filter(s => !s.aggregate)) {
+    if (!options) aggregator.setBaseOwned(symbol, timeframe, false);
+  }
+
+  const clientCharts = wsServer ? wsServer.getActiveSubscriptions().filter(s => !s.aggregate) : [];
+  await tvClient.updateSubscriptions([...baselineSubscriptions(), ...clientCharts], 'config_reload');
+
+  for (const subscription of updated) {
+    if (subscription.aggregate) {
+      // Rebuild the aggregation, its base timeframe may have changed
+      await aggregator.unsubscribe(subscription.symbol, subscription.timeframe);
+      await aggregator.subscribe(subscription);
+    } else {
+      // Replace the emission policy rather than merging into the previous one
+      tvClient.setEmitPolicy(subscriptionKey(subscription), { ...config.emit, ...subscription.emit });
+    }
+  }
+  for (const subscription of added.filter(s => s.aggregate)) {
+    await aggregator.subscribe(subscription);
+  }
+}
+
+// Subscriptions of the config file, reloaded on SIGHUP and when the file changes
+let configReloader: ConfigReloader | null = null;
+// Reloads are applied one after the other
+let reloading: Promise<void> = Promise.resolve();
+if (CONFIG_FILE) {
+  configReloader = new ConfigReloader(CONFIG_FILE);
+  configReloader.on('subscriptions', (changes: SubscriptionChanges) => {
+    // Updated right away so that the next reload is compared with it
+    config.subscriptions = changes.subscriptions;
+    reloading = reloading
+      .then(() => applySubscriptionChanges(changes))
+      .catch(err => {
+        logger.error('[CONFIG] Failed to apply reloaded subscriptions: %s', (err as Error).message);
+      });
+  });
+}
+
+// Subscriptions registered by operators are acquired here, WebSocket ones by the 'subscribe' handler
+registry.on('added', async (subscription: Subscription) => {
+  if (wsServer?.hasSubscribers(subscription)) {
+    // The chart exists already, only its emission policy may change
+    if (subscription.emit) tvClient.setEmitPolicy(subscriptionKey(subscription), subscription.emit);
+    return;
+  }
+  try {
+    await acquireSubscription(subscription);
+  } catch (err) {
+    logger.error('Failed to subscribe to registered %s: %s', subscriptionKey(subscription), (err as Error).message);
+  }
+});
+
+registry.on('removed', async (subscription: Subscription) => {
+  try {
+    await releaseSubscription(subscription);
+  } catch (err) {
+    logger.error('Failed to release unregistered %s: %s', subscriptionKey(subscription), (err as Error).message);
+  }
+});
+
 // Create WebSocket server if enabled
 let wsServer: WebSocketServer | null = null;
 if (config.websocket.enabled) {
   const wsPort = config.websocket.port;
   wsServer = new WebSocketServer();
+  wsServer.setRegistry(registry);
   setWebSocketServer(wsServer);
   
   // Handle subscriptions via WebSocket
-  wsServer.on('subscribe', async (subscription) => {
+  // Clients get their reply once TradingView loaded the chart (or failed to)
+  wsServer.on('subscribe', async (subscription: Subscription) => {
     logger.info('WebSocket requested subscription: %o', subscription);
-    await tvClient.subscribe(subscription);
+    let error: string | null = null;
+    try {
+      await acquireSubscription(subscription);
+      await tvClient.waitForChart(aggregator.chartOf(subscription));
+    } catch (err) {
+      error = (err as Error).message;
+    }
+    wsServer?.settleSubscription(subscription, error);
+  });
+  
+  wsServer.on('unsubscribe', async (subscription: Subscription) => {
+    logger.info('WebSocket requested unsubscription: %s', subscriptionKey(subscription));
+    try {
+      await releaseSubscription(subscription);
+    } catch (err) {
+      logger.error('Failed to release %s: %s', subscriptionKey(subscription), (err as Error).message);
+    }
+  });
+  
+  // Keep the registry in sync with the API keys using each subscription
+  wsServer.on('owner_subscribe', ({ subscription, owner }) => {
+    registry.addOwner(subscription, owner);
   });
   
-  wsServer.on('unsubscribe', async ({ symbol, timeframe }) => {
-    logger.info('WebSocket requested unsubscription: %s/%s', symbol, timeframe);
-    await tvClient.unsubscribe(symbol, timeframe);
+  wsServer.on('owner_unsubscribe', ({ subscription, owner }) => {
+    registry.removeOwner(subscriptionKey(subscription), owner);
+  });
+  
+  wsServer.on('indicator_subscribe', async (subscription) => {
+    logger.info('WebSocket requested indicator subscription: %o', subscription);
+    const { symbol, timeframe } = subscription;
+    try {
+      // The study lives on the symbol/timeframe chart, which must outlive the aggregations sharing it
+      aggregator.setBaseOwned(symbol, timeframe, false);
+      if (!await tvClient.subscribe({ symbol, timeframe }, 'indicator')) {
+        throw new Error(`Failed to subscribe to ${symbol}/${timeframe}`);
+      }
+      if (!await tvClient.subscribeIndicator(subscription)) {
+        await releaseChart({ symbol, timeframe });
+      }
+    } catch (err) {
+      logger.error('Indicator subscription failed: %s', (err as Error).message);
+      wsServer?.failIndicator(indicatorId(subscription), (err as Error).message);
+    }
+  });
+  
+  wsServer.on('indicator_unsubscribe', async ({ id, symbol, timeframe }) => {
+    logger.info('WebSocket requested indicator unsubscription: %s', id);
+    try {
+      tvClient.unsubscribeIndicator(id);
+      await releaseChart({ symbol, timeframe });
+    } catch (err) {
+      logger.error('Indicator unsubscription failed: %s', (err as Error).message);
+    }
+  });
+  
+  // Clients get their reply once TradingView sent the first quote of the symbol (or failed to)
+  wsServer.on('quote_subscribe', async ({ symbol }) => {
+    logger.info('WebSocket requested quote subscription: %s', symbol);
+    let error: string | null = null;
+    try {
+      if (!tvClient.subscribeQuote(symbol)) throw new Error(`Failed to subscribe to quotes for ${symbol}`);
+      await tvClient.waitForQuote(symbol);
+    } catch (err) {
+      error = (err as Error).message;
+      // A market that errored is already gone, one that stayed silent is dropped
+      if (tvClient.getQuoteSubscriptions().includes(symbol)) tvClient.unsubscribeQuote(symbol);
+    }
+    wsServer?.settleQuote(symbol, error);
+  });
+  
+  wsServer.on('quote_unsubscribe', ({ symbol }) => {
+    logger.info('WebSocket requested quote unsubscription: %s', symbol);
+    tvClient.unsubscribeQuote(symbol);
+  });
+  
+  // Drop anything left over from WebSocket clients, keeping configured subscriptions
+  wsServer.on('no_clients', async () => {
+    try {
+      await tvClient.updateSubscriptions(baselineSubscriptions(), 'no_clients');
+    } catch (err) {
+      logger.error('Failed to reset subscriptions after the last WebSocket client left: %s', (err as Error).message);
+    }
   });
   
   logger.info('WebSocket server started on port %d', wsPort);
@@ -50,6 +291,13 @@ async function start() {
   tvClient = new TradingViewClient();
   setTradingViewClient(tvClient);
   
+  // Create aggregator for locally built timeframes
+  aggregator = new BarAggregator(tvClient);
+  
+  // Keep recent bars of every subscription for late joiners
+  barCache = new BarCache(tvClient, aggregator);
+  wsServer?.setBarCache(barCache);
+  
   // Create health monitor
   healthMonitor = new TradingViewHealthMonitor(tvClient, config.health);
   
@@ -57,6 +305,10 @@ async function start() {
   healthApiServer = new HealthApiServer(config.health.apiPort);
   healthApiServer.setTradingViewClient(tvClient);
   healthApiServer.setHealthMonitor(healthMonitor);
+  healthApiServer.setRegistry(registry);
+  healthApiServer.setAggregator(aggregator);
+  healthApiServer.setBarCache(barCache);
+  if (wsServer) healthApiServer.setWebSocketServer(wsServer);
   
   // Handle health monitor events
   healthMonitor.on('stale_subscriptions', ({ total, stale, recovered }) => {
@@ -89,14 +341,138 @@ async function start() {
     }
   });
   
+  // Handle closed bars (final values of the previous candle)
+  tvClient.on('bar_closed', async (bar) => {
+    try {
+      await pushBar(bar);
+    } catch (err) {
+      logger.error('Push error: %s', (err as Error).message);
+    }
+  });
+  
+  // Chart errors of loaded charts go to the WebSocket clients of the chart and of the aggregations built on it
+  tvClient.on('chart_error', ({ symbol, timeframe, options, message }) => {
+    if (!wsServer) return;
+    wsServer.notifyChartError(options ? { symbol, timeframe, options } : { symbol, timeframe }, message);
+    if (options) return;
+    for (const aggregated of aggregator.getSubscriptions()) {
+      if (aggregated.symbol === symbol && aggregated.baseTimeframe === timeframe) {
+        wsServer.notifyChartError(aggregated, message);
+      }
+    }
+  });
+  
+  // Quote errors end the quote subscriptions of the symbol's WebSocket clients
+  tvClient.on('quote_error', ({ symbol, message }) => {
+    wsServer?.failQuote(symbol, message);
+  });
+  
+  // Replayed bars only go to the WebSocket client that owns the replay
+  tvClient.on('replay_bar', (bar) => {
+    pushReplayBar(bar);
+  });
+  
+  tvClient.on('replay_end', (replay) => {
+    wsServer?.sendReplayEvent(MessageType.REPLAY_END, replay, 'Replay reached the end of data');
+  });
+  
+  // A replay chart that errors cannot recover, stop it so its owner is notified
+  tvClient.on('replay_error', (replay) => {
+    tvClient.stopReplay(replay.id, 'error');
+  });
+  
+  // Replays stopped by the server (e.g. TradingView disconnect)
+  tvClient.on('replay_stopped', (replay) => {
+    if (replay.reason !== 'explicit' && replay.reason !== 'client_disconnected') {
+      wsServer?.sendReplayEvent(MessageType.REPLAY_STOP, replay, `Replay stopped: ${replay.reason}`);
+    }
+  });
+  
+  // Handle real-time quotes
+  tvClient.on('quote', (quote) => {
+    pushQuote(quote);
+  });
+  
+  // Handle indicator values (in-progress and closed periods)
+  tvClient.on('indicator', async (value) => {
+    try {
+      await pushIndicator(value);
+    } catch (err) {
+      logger.error('Push error: %s', (err as Error).message);
+    }
+  });
+  
+  tvClient.on('indicator_closed', async (value) => {
+    try {
+      await pushIndicator(value);
+    } catch (err) {
+      logger.error('Push error: %s', (err as Error).message);
+    }
+  });
+  
+  // Report indicators that could not be loaded to their WebSocket clients
+  tvClient.on('indicator_error', async ({ subscription, id, error }) => {
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    wsServer?.failIndicator(id, message);
+    // A study failing on the chart is removed, its clients are gone
+    if (tvClient.getIndicatorSubscriptions().some(s => s.id === id)) {
+      try {
+        tvClient.unsubscribeIndicator(id);
+        await releaseChart({ symbol: subscription.symbol, timeframe: subscription.timeframe });
+      } catch (err) {
+        logger.error('Failed to remove failed indicator %s: %s', id, (err as Error).message);
+      }
+    }
+  });
+  
+  // Handle aggregated bars the same way as bars from TradingView
+  aggregator.on('bar', async (bar) => {
+    try {
+      await pushBar(bar);
+    } catch (err) {
+      logger.error('Push error: %s', (err as Error).message);
+    }
+  });
+  
+  aggregator.on('bar_closed', async (bar) => {
+    try {
+      await pushBar(bar);
+    } catch (err) {
+      logger.error('Push error: %s', (err as Error).message);
+    }
+  });
+  
+  // Poll technical analysis of configured symbols
+  if (config.ta.symbols.length > 0) {
+    taPoller = new TAPoller(config.ta.symbols, config.ta.pollIntervalMs, config.ta.timeframes);
+    taPoller.on('change', async (change) => {
+      try {
+        await pushTAChange(change);
+      } catch (err) {
+        logger.error('Push error: %s', (err as Error).message);
+      }
+    });
+    taPoller.start();
+  }
+  
+  // Start the output sinks, delivering backend pushes spooled before the last shutdown
+  startSinks();
+  
   // Connect
   await tvClient.connect();
   
-  // If there are initial subscriptions in the configuration, subscribe
-  if (config.subscriptions.length > 0) {
-    logger.info('Subscribing to initial %d pairs from config', config.subscriptions.length);
-    await tvClient.updateSubscriptions(config.subscriptions);
+  // Subscribe to the configured subscriptions and those restored from the registry
+  const restored = registry.load();
+  if (config.subscriptions.length > 0 || restored.length > 0) {
+    logger.info('Subscribing to initial %d pairs from config and %d from the registry', config.subscriptions.length, restored.length);
+    await tvClient.updateSubscriptions(baselineSubscriptions(), 'startup');
+    for (const subscription of [...config.subscriptions, ...restored].filter(s => s.aggregate)) {
+      await aggregator.subscribe(subscription);
+    }
   }
+
+  // Config file changes are only applied once the initial subscriptions are in place
+  configReloader?.watch();
 }
 
 // Start application
@@ -108,8 +484,12 @@ start().catch((err) => {
 // Handle termination signals
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down...');
+  registry.close();
+  if (configReloader) configReloader.stop();
   if (healthApiServer) healthApiServer.stop();
   if (healthMonitor) healthMonitor.stop();
+  if (taPoller) taPoller.stop();
+  stopSinks();
   if (wsServer) wsServer.close();
   if (tvClient) tvClient.close();
   process.exit(0);
@@ -117,9 +497,23 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down...');
+  registry.close();
+  if (configReloader) configReloader.stop();
   if (healthApiServer) healthApiServer.stop();
   if (healthMonitor) healthMonitor.stop();
+  if (taPoller) taPoller.stop();
+  stopSinks();
   if (wsServer) wsServer.close();
   if (tvClient) tvClient.close();
   process.exit(0);
-}); 
\ No newline at end of file
+}); 
+
+// Reload the config file, without it SIGHUP is ignored rather than ending the process
+process.on('SIGHUP', () => {
+  if (!configReloader) {
+    logger.warn('SIGHUP received but no CONFIG_FILE is set, nothing to reload');
+    return;
+  }
+  logger.info('SIGHUP received, reloading %s', CONFIG_FILE);
+  configReloader.reload('sighup');
+});
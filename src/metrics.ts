@@ -38,6 +38,14 @@ export const subscriptionsGauge = new Gauge({
   registers: [registry]
 });
 
+// Live bar updates held back by emission policies
+export const barUpdatesSuppressedTotal = new Counter({
+  name: 'bar_updates_suppressed_total',
+  help: 'Total number of live bar updates not emitted because of emission policies',
+  labelNames: ['reason'],
+  registers: [registry]
+});
+
 // HTTP push latency
 export const httpPushLatency = new Histogram({
   name: 'http_push_latency_seconds',
@@ -84,6 +92,72 @@ export const lastDataReceivedGauge = new Gauge({
   registers: [registry]
 });
 
+// Backend push spool metrics by sink, depth and age are read from the spools when scraped
+const spoolStats: Map<string, { size: () => number; oldestAgeSeconds: () => number }> = new Map();
+
+export function setSpoolStats(sink: string, stats: { size: () => number; oldestAgeSeconds: () => number }) {
+  spoolStats.set(sink, stats);
+}
+
+export const spoolDepthGauge = new Gauge({
+  name: 'spool_records',
+  help: 'Number of backend pushes waiting in the disk spool',
+  labelNames: ['sink'],
+  registers: [registry],
+  collect() {
+    for (const [sink, stats] of spoolStats) this.set({ sink }, stats.size());
+  }
+});
+
+export const spoolOldestAgeGauge = new Gauge({
+  name: 'spool_oldest_record_age_seconds',
+  help: 'Age of the oldest backend push waiting in the disk spool',
+  labelNames: ['sink'],
+  registers: [registry],
+  collect() {
+    for (const [sink, stats] of spoolStats) this.set({ sink }, stats.oldestAgeSeconds());
+  }
+});
+
+export const spoolDroppedTotal = new Counter({
+  name: 'spool_dropped_total',
+  help: 'Total number of spooled backend pushes dropped because of the size or age limit',
+  labelNames: ['sink', 'reason'],
+  registers: [registry]
+});
+
+// Output sink metrics, health is read from the sinks when scraped
+const sinkHealth: Map<string, () => boolean> = new Map();
+
+export function setSinkHealth(sink: string, isHealthy: () => boolean) {
+  sinkHealth.set(sink, isHealthy);
+}
+
+export const sinkEventsTotal = new Counter({
+  name: 'sink_events_total',
+  help: 'Total number of events handled by output sinks (result: delivered, failed attempt, dropped)',
+  labelNames: ['sink', 'result'],
+  registers: [registry]
+});
+
+export const sinkWriteLatency = new Histogram({
+  name: 'sink_write_latency_seconds',
+  help: 'Latency of writes to output sinks',
+  labelNames: ['sink'],
+  buckets: [0.001, 0.01, 0.05, 0.1, 0.5, 1, 5],
+  registers: [registry]
+});
+
+export const sinkHealthyGauge = new Gauge({
+  name: 'sink_healthy',
+  help: 'Whether the last write to the output sink succeeded (1) or failed (0)',
+  labelNames: ['sink'],
+  registers: [registry],
+  collect() {
+    for (const [sink, isHealthy] of sinkHealth) this.set({ sink }, isHealthy() ? 1 : 0);
+  }
+});
+
 // Function to start metrics server
 export function startMetricsServer(port: number) {
   const app = express();
@@ -1,8 +1,8 @@
-import axios from 'axios';
-import { config } from './config';
 import { logger } from './logger';
-import { barsPushedTotal, httpPushLatency } from './metrics';
-import type { Bar } from './tradingview';
+import { createSinks, type Sink, type SinkEvent, type SinkStatus } from './sinks';
+import { barIdempotencyKey, indicatorIdempotencyKey, taChangeIdempotencyKey } from './signing';
+import type { Bar, Quote, IndicatorValue } from './tradingview';
+import type { TAChange } from './ta';
 import type { WebSocketServer } from './websocket';
 import { TradingViewClient } from './tradingview';
 
@@ -12,6 +12,9 @@ let wsServer: WebSocketServer | null = null;
 // TradingViewClient singleton
 let tvClient: TradingViewClient | null = null;
 
+// Output sinks receiving bars, indicator values and TA changes
+let sinks: Sink[] = [];
+
 // Set WebSocket server
 export function setWebSocketServer(server: WebSocketServer) {
   wsServer = server;
@@ -27,6 +30,28 @@ export function getTradingViewClient(): TradingViewClient | null {
   return tvClient;
 }
 
+// Create the configured sinks and start them (opens spools, delivers what a previous run left)
+export function startSinks() {
+  if (sinks.length > 0) return;
+  sinks = createSinks();
+  for (const sink of sinks) sink.start();
+  logger.info('Output sinks: %s', sinks.map(s => `${s.name} (${s.type})`).join(', ') || 'none');
+}
+
+// Stop the sinks, bars waiting for their batch are spooled when the spool is enabled
+export function stopSinks() {
+  for (const sink of sinks) sink.stop();
+}
+
+export function getSinkStatuses(): SinkStatus[] {
+  return sinks.map(sink => sink.getStatus());
+}
+
+// Send an event to every sink that wants it
+async function dispatch(event: SinkEvent) {
+  await Promise.all(sinks.filter(sink => sink.accepts(event)).map(sink => sink.send(event)));
+}
+
 // Function to push a bar to API and WebSocket clients
 export async function pushBar(bar: Bar) {
   // If WebSocket server is set, broadcast bar to clients
@@ -34,8 +59,13 @@ export async function pushBar(bar: Bar) {
     wsServer.broadcastBar(bar);
   }
 
-  // If backend endpoint is not configured, do not push via HTTP
-  if (!config.backend.endpoint) {
+  if (sinks.length === 0) {
+    return;
+  }
+
+  // Replayed bars must never reach the production backend
+  if (bar.replayId) {
+    logger.warn('Refusing to push replay bar of %s to the output sinks', bar.replayId);
     return;
   }
 
@@ -48,28 +78,44 @@ export async function pushBar(bar: Bar) {
     close: bar.close,
     volume: bar.volume,
     timeframe: bar.timeframe,
+    isClosed: bar.isClosed,
+    ...(bar.backfilled ? { backfilled: true } : {}),
+    ...(bar.options ? { options: bar.options } : {}),
+    // Same for every retry, lets the receiver drop duplicates
+    idempotencyKey: barIdempotencyKey(bar),
   };
-  const headers = {
-    'Content-Type': 'application/json',
-    'X-Api-Key': config.backend.apiKey,
-  };
-  let attempt = 0;
-  const maxAttempts = 1 + (config as any).retry?.httpRetry?.attempts || 3;
-  const backoffSec = (config as any).retry?.httpRetry?.backoffSec || 1;
-  while (attempt < maxAttempts) {
-    const end = httpPushLatency.startTimer();
-    try {
-      await axios.post(config.backend.endpoint, payload, { headers });
-      barsPushedTotal.inc();
-      logger.debug('Pushed bar: %o', payload);
-      end();
-      return;
-    } catch (err) {
-      end();
-      logger.error('Failed to push bar (attempt %d): %s', attempt + 1, (err as Error).message);
-      attempt++;
-      if (attempt < maxAttempts) await new Promise(res => setTimeout(res, backoffSec * 1000));
-    }
+  // Each sink only takes the kind of bars (live updates and/or closed bars) it asked for
+  await dispatch({ type: 'bar', payload });
+}
+
+// Function to send a replayed bar to the WebSocket client owning the replay (never to the backend)
+export function pushReplayBar(bar: Bar) {
+  if (wsServer) {
+    wsServer.sendReplayBar(bar);
   }
-  logger.error('Giving up on pushing bar after %d attempts', maxAttempts);
-} 
\ No newline at end of file
+}
+
+// Function to push a quote to WebSocket clients
+export function pushQuote(quote: Quote) {
+  if (wsServer) {
+    wsServer.broadcastQuote(quote);
+  }
+}
+
+// Function to push an indicator value to API and WebSocket clients
+export async function pushIndicator(value: IndicatorValue) {
+  if (wsServer) {
+    wsServer.broadcastIndicator(value);
+  }
+
+  await dispatch({ type: 'indicator', payload: { type: 'indicator', ...value, idempotencyKey: indicatorIdempotencyKey(value) } });
+}
+
+// Function to push a technical analysis recommendation change to API and WebSocket clients
+export async function pushTAChange(change: TAChange) {
+  if (wsServer) {
+    wsServer.broadcastTAChange(change);
+  }
+
+  await dispatch({ type: 'ta_change', payload: { type: 'ta_change', ...change, idempotencyKey: taChangeIdempotencyKey(change) } });
+}
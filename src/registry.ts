@@ -0,0 +1,255 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import { type Subscription, subscriptionKey, normalizeChartOptions, normalizeEmitPolicy } from './config';
+import { normalizeTimeframe } from './timeframe';
+
+// Owners created by WebSocket clients, named after their API key (e.g. ws:ui)
+export const WS_OWNER_PREFIX = 'ws:';
+
+// Active subscription with everyone who asked for it
+export interface RegistryEntry extends Subscription {
+  key: string;
+  owners: string[];
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface RegistryFile {
+  version: number;
+  entries: RegistryEntry[];
+}
+
+const FILE_VERSION = 1;
+
+// Build a registry entry from untrusted data (registry file or HTTP request), throws if invalid
+export function toRegistrySubscription(raw: any): Subscription {
+  if (!raw || typeof raw.symbol !== 'string' || !raw.symbol || typeof raw.timeframe !== 'string' || !raw.timeframe) {
+    throw new Error('symbol and timeframe are required');
+  }
+  const subscription: Subscription = { symbol: raw.symbol, timeframe: normalizeTimeframe(raw.timeframe) };
+  const options = normalizeChartOptions(raw.options);
+  if (options) subscription.options = options;
+  const emit = normalizeEmitPolicy(raw.emit);
+  if (emit) subscription.emit = emit;
+  if (raw.aggregate) {
+    subscription.aggregate = true;
+    if (raw.baseTimeframe) subscription.baseTimeframe = normalizeTimeframe(String(raw.baseTimeframe));
+  }
+  return subscription;
+}
+
+/**
+ * Records active subscriptions with their owners so they can be restored after a restart.
+ *
+ * The registry is kept in memory and, when a file is configured, written atomically to it
+ * on every change. Emits 'added' (RegistryEntry) when a subscription gets its first owner
+ * and 'removed' (RegistryEntry) when its last owner is gone.
+ *
+ * WebSocket owners restored from the file have `restoreGraceMs` to subscribe again,
+ * after which they are dropped. Other owners (added through the HTTP API) stay until removed.
+ */
+export class SubscriptionRegistry extends EventEmitter {
+  private file: string;
+  private restoreGraceMs: number;
+  private entries: Map<string, RegistryEntry> = new Map();
+  // Restored WebSocket owners that have not subscribed again yet, by subscription key
+  private unclaimed: Map<string, Set<string>> = new Map();
+  private graceTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(file: string, restoreGraceMs: number) {
+    super();
+    this.file = file;
+    this.restoreGraceMs = restoreGraceMs;
+  }
+
+  /**
+   * Load the registry file, returns the restored subscriptions
+   */
+  load(): Subscription[] {
+    if (!this.file) {
+      logger.info('[REGISTRY] No registry file configured, subscriptions are not persisted');
+      return [];
+    }
+    if (!fs.existsSync(this.file)) {
+      logger.info('[REGISTRY] Registry file %s does not exist yet, starting empty', this.file);
+      return [];
+    }
+
+    let data: RegistryFile;
+    try {
+      data = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+    } catch (err) {
+      logger.error('[REGISTRY] Failed to read registry file %s: %s', this.file, (err as Error).message);
+      return [];
+    }
+
+    const now = new Date().toISOString();
+    for (const raw of Array.isArray(data?.entries) ? data.entries : []) {
+      let subscription: Subscription;
+      try {
+        subscription = toRegistrySubscription(raw);
+      } catch (err) {
+        logger.warn('[REGISTRY] Skipping invalid registry entry %o: %s', raw, (err as Error).message);
+        continue;
+      }
+      const owners: string[] = Array.isArray(raw.owners)
+        ? Array.from(new Set<string>(raw.owners.filter((o: any) => typeof o === 'string' && o)))
+        : [];
+      if (owners.length === 0) continue;
+
+      const key = subscriptionKey(subscription);
+      this.entries.set(key, {
+        ...subscription,
+        key,
+        owners,
+        createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : now,
+        updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : now,
+      });
+      const wsOwners = owners.filter(o => o.startsWith(WS_OWNER_PREFIX));
+      if (wsOwners.length > 0) this.unclaimed.set(key, new Set(wsOwners));
+    }
+
+    if (this.unclaimed.size > 0) {
+      this.graceTimer = setTimeout(() => this.expireUnclaimed(), this.restoreGraceMs);
+    }
+    logger.info('[REGISTRY] Restored %d subscriptions from %s', this.entries.size, this.file);
+    return this.getSubscriptions();
+  }
+
+  /**
+   * Record an owner of a subscription, creating the entry if needed
+   */
+  addOwner(subscription: Subscription, owner: string): RegistryEntry {
+    const key = subscriptionKey(subscription);
+    this.unclaimed.get(key)?.delete(owner);
+    if (this.unclaimed.get(key)?.size === 0) this.unclaimed.delete(key);
+
+    const now = new Date().toISOString();
+    let entry = this.entries.get(key);
+    if (entry) {
+      if (entry.owners.includes(owner)) return entry;
+      entry.owners.push(owner);
+      entry.updatedAt = now;
+      this.save();
+      return entry;
+    }
+
+    const { symbol, timeframe, options, emit, aggregate, baseTimeframe } = subscription;
+    entry = { symbol, timeframe, key, owners: [owner], createdAt: now, updatedAt: now };
+    if (options) entry.options = options;
+    if (emit) entry.emit = emit;
+    if (aggregate) {
+      entry.aggregate = true;
+      if (baseTimeframe) entry.baseTimeframe = baseTimeframe;
+    }
+    this.entries.set(key, entry);
+    logger.info('[REGISTRY] Added %s (owner: %s)', key, owner);
+    this.save();
+    this.emit('added', entry);
+    return entry;
+  }
+
+  /**
+   * Remove an owner of a subscription, the entry is removed with its last owner.
+   * Returns false if the subscription or owner was not registered.
+   */
+  removeOwner(key: string, owner: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry || !entry.owners.includes(owner)) return false;
+    this.unclaimed.get(key)?.delete(owner);
+
+    entry.owners = entry.owners.filter(o => o !== owner);
+    entry.updatedAt = new Date().toISOString();
+    if (entry.owners.length === 0) {
+      this.delete(key);
+    } else {
+      this.save();
+    }
+    return true;
+  }
+
+  /**
+   * Remove a subscription whatever its owners, returns the removed entry
+   */
+  remove(key: string): RegistryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.delete(key);
+    return entry;
+  }
+
+  get(key: string): RegistryEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  // Get all entries
+  list(): RegistryEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  // Get registered subscriptions without registry metadata
+  getSubscriptions(): Subscription[] {
+    return this.list().map(({ key, owners, createdAt, updatedAt, ...subscription }) => subscription);
+  }
+
+  // Get the location of the registry file ('' when not persisted)
+  getFile(): string {
+    return this.file;
+  }
+
+  /**
+   * Stop writing to the registry file. Called on shutdown so that subscriptions
+   * dropped while the server goes down are still restored on the next start.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.unclaimed.delete(key);
+    logger.info('[REGISTRY] Removed %s', key);
+    this.save();
+    this.emit('removed', entry);
+  }
+
+  // Drop restored WebSocket owners that did not subscribe again in time
+  private expireUnclaimed(): void {
+    this.graceTimer = null;
+    for (const [key, owners] of Array.from(this.unclaimed.entries())) {
+      for (const owner of Array.from(owners)) {
+        logger.info('[REGISTRY] Owner %s did not resubscribe to %s within %ds, dropping it', owner, key, Math.round(this.restoreGraceMs / 1000));
+        this.removeOwner(key, owner);
+      }
+    }
+    this.unclaimed.clear();
+  }
+
+  // Write the registry atomically: a crash never leaves a truncated file behind
+  private save(): void {
+    if (!this.file || this.closed) return;
+    const data: RegistryFile = { version: FILE_VERSION, entries: this.list() };
+    const tmp = `${this.file}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+      fs.renameSync(tmp, this.file);
+    } catch (err) {
+      logger.error('[REGISTRY] Failed to write registry file %s: %s', this.file, (err as Error).message);
+    }
+  }
+}
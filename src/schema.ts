@@ -0,0 +1,107 @@
+// Shape of a configuration value, checked by validate()
+export type Schema =
+  | { type: 'string'; nonEmpty?: boolean; nullable?: boolean }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'array'; items: Schema }
+  // Unknown fields are rejected unless the object is open
+  | { type: 'object'; fields: Record<string, Schema>; required?: string[]; open?: boolean }
+  // Checked by a function returning the normalized value or throwing an Error
+  | { type: 'custom'; check: (value: unknown) => unknown };
+
+// Short description of a value for error messages
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  if (typeof value === 'string') return `"${value}"`;
+  return String(value);
+}
+
+function fieldPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+/**
+ * Check a value against a schema, appending every problem to `errors` as "path: message".
+ * Returns the value with custom fields normalized.
+ */
+export function validate(value: unknown, schema: Schema, path: string, errors: string[]): any {
+  const fail = (message: string) => {
+    errors.push(`${path || '(root)'}: ${message}`);
+    return value;
+  };
+
+  switch (schema.type) {
+    case 'string':
+      if (value === null && schema.nullable) return value;
+      if (typeof value !== 'string') return fail(`must be a string, got ${describe(value)}`);
+      if (schema.nonEmpty && !value) return fail('must not be empty');
+      return value;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(`must be a number, got ${describe(value)}`);
+      if (schema.integer && !Number.isInteger(value)) return fail(`must be an integer, got ${value}`);
+      if (schema.min !== undefined && value < schema.min) return fail(`must be at least ${schema.min}, got ${value}`);
+      if (schema.max !== undefined && value > schema.max) return fail(`must be at most ${schema.max}, got ${value}`);
+      return value;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') return fail(`must be true or false, got ${describe(value)}`);
+      return value;
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        return fail(`must be one of: ${schema.values.join(', ')}, got ${describe(value)}`);
+      }
+      return value;
+
+    case 'array':
+      if (!Array.isArray(value)) return fail(`must be a list, got ${describe(value)}`);
+      return value.map((item, i) => validate(item, schema.items, `${path}[${i}]`, errors));
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(`must be an object, got ${describe(value)}`);
+      }
+      const result: Record<string, any> = {};
+      for (const field of schema.required || []) {
+        if ((value as any)[field] === undefined) errors.push(`${fieldPath(path, field)}: is required`);
+      }
+      for (const [field, item] of Object.entries(value)) {
+        const fieldSchema = schema.fields[field];
+        if (fieldSchema) {
+          // Custom checks return undefined for values that set nothing (e.g. empty chart options)
+          const checked = item === undefined ? undefined : validate(item, fieldSchema, fieldPath(path, field), errors);
+          if (checked !== undefined) result[field] = checked;
+        } else if (schema.open) {
+          result[field] = item;
+        } else {
+          errors.push(`${fieldPath(path, field)}: unknown setting`);
+        }
+      }
+      return result;
+    }
+
+    case 'custom':
+      try {
+        return schema.check(value);
+      } catch (err) {
+        return fail((err as Error).message);
+      }
+  }
+}
+
+/**
+ * Validate a value, throwing one error that lists every problem
+ * @param source where the value comes from, for the error message (e.g. the config file)
+ */
+export function assertValid<T>(value: unknown, schema: Schema, source: string, path = ''): T {
+  const errors: string[] = [];
+  const result = validate(value, schema, path, errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return result;
+}
@@ -0,0 +1,106 @@
+import { config } from './config';
+import { logger } from './logger';
+
+// Import TradingView API from local vendor directory
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const TradingViewAPI = require('../tradingview_vendor/main');
+
+// Market types accepted by the TradingView symbol search
+export const SEARCH_TYPES = ['stock', 'futures', 'forex', 'cfd', 'crypto', 'index', 'economic'];
+
+// Maximum number of cached searches, the oldest entries are dropped first
+const MAX_CACHE_ENTRIES = 500;
+
+export interface SymbolSearchOptions {
+  // Market type filter (one of SEARCH_TYPES)
+  type?: string;
+  // Exchange filter (e.g. BINANCE)
+  exchange?: string;
+}
+
+// Normalized symbol search result
+export interface SymbolSearchResult {
+  // Full symbol id usable for subscriptions (EXCHANGE:SYMBOL)
+  id: string;
+  symbol: string;
+  description: string;
+  type: string;
+  exchange: string;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  results: Promise<SymbolSearchResult[]>;
+}
+
+const cache: Map<string, CacheEntry> = new Map();
+
+// Strip HTML highlighting TradingView adds around matched text
+function stripTags(value: string | undefined): string {
+  return (value || '').replace(/<\/?em>/g, '');
+}
+
+async function fetchSymbols(query: string, options: SymbolSearchOptions): Promise<SymbolSearchResult[]> {
+  // The vendor reads the exchange from an EXCHANGE:TEXT search string
+  const search = options.exchange ? `${options.exchange}:${query}` : query;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Symbol search timed out')), config.tvApi.timeoutMs);
+  });
+  try {
+    const results: any[] = await Promise.race([TradingViewAPI.searchMarketV3(search, options.type || ''), timeout]);
+    return results.map(r => {
+      const id = stripTags(r.id);
+      return {
+        id,
+        symbol: stripTags(r.symbol),
+        description: stripTags(r.description),
+        type: r.type || '',
+        exchange: id.includes(':') ? id.split(':')[0] : String(r.exchange || '').toUpperCase(),
+      };
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Search TradingView symbols. Results are cached for `search.cacheTtlMs`,
+ * concurrent identical searches share one request.
+ */
+export async function searchSymbols(query: string, options: SymbolSearchOptions = {}): Promise<SymbolSearchResult[]> {
+  const q = query.trim();
+  if (!q) throw new Error('Search query is required');
+  if (options.type && !SEARCH_TYPES.includes(options.type)) {
+    throw new Error(`Invalid search type "${options.type}", expected one of: ${SEARCH_TYPES.join(', ')}`);
+  }
+
+  const normalized = { type: options.type || '', exchange: (options.exchange || '').trim().toUpperCase() };
+  const key = `${q.toUpperCase()}|${normalized.type}|${normalized.exchange}`;
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) {
+    logger.debug('Symbol search cache hit: %s', key);
+    return cached.results;
+  }
+
+  const results = fetchSymbols(q, normalized);
+  cache.delete(key);
+  cache.set(key, { expiresAt: now + config.search.cacheTtlMs, results });
+  // Failed searches are not cached
+  results.catch(() => {
+    if (cache.get(key)?.results === results) cache.delete(key);
+  });
+  pruneCache(now);
+  return results;
+}
+
+// Drop expired entries and keep the cache size bounded
+function pruneCache(now: number): void {
+  for (const [key, entry] of cache.entries()) {
+    if (entry.expiresAt <= now) cache.delete(key);
+  }
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
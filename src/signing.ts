@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import { subscriptionKey } from './config';
+import type { Bar, IndicatorValue } from './tradingview';
+import type { TAChange } from './ta';
+
+// Request headers of signed pushes
+export const SIGNATURE_HEADER = 'X-Signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+// Request header repeating the idempotency key of single (not batched) pushes
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Signature of a request body: HMAC-SHA256 of "<timestamp>.<body>" with the secret,
+ * sent as "sha256=<hex>". The timestamp (unix seconds) is sent along so that the
+ * receiver can reject old requests.
+ */
+export function signBody(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Deterministic key of a pushed value, the same parts always give the same key
+function idempotencyKey(...parts: (string | number)[]): string {
+  return crypto.createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 32);
+}
+
+/**
+ * Revision of a bar within its period. A closed bar has a single final revision,
+ * so a backfilled or re-sent closed bar gets the key of the one already delivered.
+ * Live updates have one revision per distinct state of the bar.
+ */
+function barRevision(bar: Bar): string {
+  if (bar.isClosed) return 'closed';
+  return ['live', bar.open, bar.high, bar.low, bar.close, bar.volume].join(':');
+}
+
+export function barIdempotencyKey(bar: Bar): string {
+  return idempotencyKey('bar', subscriptionKey(bar), bar.time, barRevision(bar));
+}
+
+export function indicatorIdempotencyKey(value: IndicatorValue): string {
+  const revision = value.isClosed ? 'closed' : `live:${JSON.stringify(value.values)}`;
+  return idempotencyKey('indicator', value.id, value.time, revision);
+}
+
+export function taChangeIdempotencyKey(change: TAChange): string {
+  return idempotencyKey('ta_change', change.symbol, change.timeframe, change.time, change.recommendation);
+}
@@ -0,0 +1,689 @@
+import axios from 'axios';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import zlib from 'zlib';
+import { config, SINK_EVENT_TYPES, type BarMode, type BatchFailurePolicy, type SinkConfig, type SinkEventType } from './config';
+import { logger } from './logger';
+import { barsPushedTotal, httpPushLatency, setSinkHealth, setSpoolStats, sinkEventsTotal, sinkWriteLatency } from './metrics';
+import { DiskSpool, PushQueue } from './spool';
+import { IDEMPOTENCY_HEADER, SIGNATURE_HEADER, SIGNATURE_TIMESTAMP_HEADER, signBody } from './signing';
+import { matchesBarMode } from './tradingview';
+
+// Data delivered to sinks: the payload is what the HTTP backend receives
+export interface SinkEvent {
+  type: SinkEventType;
+  payload: Record<string, any>;
+}
+
+// Sink state reported by /status and /sinks
+export interface SinkStatus {
+  name: string;
+  type: string;
+  healthy: boolean;
+  events: SinkEventType[];
+  barMode: BarMode;
+  delivered: number;
+  dropped: number;
+  // Events waiting to be delivered (batched or spooled)
+  pending: number;
+  lastError: string | null;
+  // ISO timestamps
+  lastSuccessAt: string | null;
+  lastErrorAt: string | null;
+}
+
+// Time allowed to open a TCP connection to a sink
+const CONNECT_TIMEOUT_MS = 5000;
+
+// What is written, for logs
+const EVENT_KINDS: Record<SinkEventType, string> = { bar: 'bar', indicator: 'indicator value', ta_change: 'TA change' };
+
+// One JSON line per event, with its type
+function toLine(event: SinkEvent): string {
+  return JSON.stringify({ type: event.type, ...event.payload }) + '\n';
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(res => setTimeout(res, ms));
+}
+
+// Open a TCP connection, failing after CONNECT_TIMEOUT_MS
+function connect(host: string, port: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(CONNECT_TIMEOUT_MS, () => socket.destroy(new Error(`Connection to ${host}:${port} timed out`)));
+    socket.once('connect', () => {
+      socket.setTimeout(0);
+      socket.removeListener('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Destination of bars, indicator values and TA changes.
+ *
+ * Subclasses implement write() for one event, send() tries it up to `retry.attempts`
+ * times before dropping the event. The sink is healthy as long as its last write succeeded.
+ */
+export abstract class Sink {
+  readonly name: string;
+  readonly type: string;
+  protected events: SinkEventType[];
+  protected barMode: BarMode;
+  protected retry: { attempts: number; backoffMs: number };
+  private healthy = true;
+  private delivered = 0;
+  private dropped = 0;
+  private lastError: string | null = null;
+  private lastSuccessAt: Date | null = null;
+  private lastErrorAt: Date | null = null;
+
+  constructor(sinkConfig: SinkConfig) {
+    this.name = sinkConfig.name || sinkConfig.type;
+    this.type = sinkConfig.type;
+    this.events = sinkConfig.events || [...SINK_EVENT_TYPES];
+    this.barMode = sinkConfig.barMode || config.backend.barMode;
+    this.retry = {
+      attempts: Math.max(1, Number(sinkConfig.retry?.attempts) || 3),
+      backoffMs: Number(sinkConfig.retry?.backoffMs) || 1000,
+    };
+    setSinkHealth(this.name, () => this.isHealthy());
+  }
+
+  // Check whether the event is of a type (and bar mode) the sink wants
+  accepts(event: SinkEvent): boolean {
+    if (!this.events.includes(event.type)) return false;
+    if (event.type === 'ta_change') return true;
+    return matchesBarMode(event.payload as { isClosed: boolean; backfilled?: boolean }, this.barMode);
+  }
+
+  /**
+   * Deliver an event, retrying with backoff. Never throws, returns false if the event was dropped.
+   */
+  async send(event: SinkEvent): Promise<boolean> {
+    const kind = EVENT_KINDS[event.type];
+    for (let attempt = 1; attempt <= this.retry.attempts; attempt++) {
+      const end = sinkWriteLatency.startTimer({ sink: this.name });
+      try {
+        await this.write(event);
+        end();
+        this.markSuccess(1);
+        logger.debug('[SINK] %s: wrote %s', this.name, kind);
+        return true;
+      } catch (err) {
+        end();
+        this.markFailure(err as Error);
+        logger.error('[SINK] %s: failed to write %s (attempt %d): %s', this.name, kind, attempt, (err as Error).message);
+      }
+      if (attempt < this.retry.attempts) await delay(this.retry.backoffMs);
+    }
+    logger.error('[SINK] %s: giving up on %s after %d attempts', this.name, kind, this.retry.attempts);
+    this.markDropped(1);
+    return false;
+  }
+
+  // Open connections or deliver what a previous run left behind
+  start(): void {}
+
+  // Flush or close, called on shutdown
+  stop(): void {}
+
+  isHealthy(): boolean {
+    return this.healthy;
+  }
+
+  getStatus(): SinkStatus {
+    return {
+      name: this.name,
+      type: this.type,
+      healthy: this.isHealthy(),
+      events: this.events,
+      barMode: this.barMode,
+      delivered: this.delivered,
+      dropped: this.dropped,
+      pending: this.pending(),
+      lastError: this.lastError,
+      lastSuccessAt: this.lastSuccessAt?.toISOString() || null,
+      lastErrorAt: this.lastErrorAt?.toISOString() || null,
+    };
+  }
+
+  // Events waiting to be delivered
+  protected pending(): number {
+    return 0;
+  }
+
+  protected abstract write(event: SinkEvent): Promise<void>;
+
+  protected markSuccess(count: number): void {
+    this.healthy = true;
+    this.delivered += count;
+    this.lastSuccessAt = new Date();
+    sinkEventsTotal.inc({ sink: this.name, result: 'delivered' }, count);
+  }
+
+  protected markFailure(err: Error): void {
+    this.healthy = false;
+    this.lastError = err.message;
+    this.lastErrorAt = new Date();
+    sinkEventsTotal.inc({ sink: this.name, result: 'failed' });
+  }
+
+  protected markDropped(count: number): void {
+    this.dropped += count;
+    sinkEventsTotal.inc({ sink: this.name, result: 'dropped' }, count);
+  }
+}
+
+/**
+ * POSTs events to HTTP endpoints (the backend webhook).
+ *
+ * Options: url, indicatorUrl and taUrl (default url), apiKey, signingSecret, gzip,
+ * batchSize, batchDelayMs, partialFailure and spoolDir. Bars may be sent in batches and
+ * pushes that fail for good are spooled to disk when spoolDir is set.
+ */
+export class HttpSink extends Sink {
+  private urls: Record<SinkEventType, string>;
+  private apiKey: string;
+  private signingSecret: string;
+  private gzip: boolean;
+  private batch: { maxItems: number; maxDelayMs: number; partialFailure: BatchFailurePolicy };
+  private spoolDir: string;
+  // Disk spooled queue in front of the endpoint, only when a spool directory is configured
+  private pushQueue: PushQueue | null = null;
+  // Bars waiting to be pushed as one batch, and the timer sending them
+  private pendingBars: object[] = [];
+  private batchTimer: NodeJS.Timeout | null = null;
+
+  constructor(sinkConfig: SinkConfig) {
+    super(sinkConfig);
+    const url = sinkConfig.url || '';
+    this.urls = { bar: url, indicator: sinkConfig.indicatorUrl || url, ta_change: sinkConfig.taUrl || url };
+    for (const type of this.events) {
+      if (!this.urls[type]) throw new Error(`Sink "${this.name}": url is required`);
+    }
+    this.apiKey = sinkConfig.apiKey || '';
+    this.signingSecret = sinkConfig.signingSecret || '';
+    this.gzip = sinkConfig.gzip === true;
+    this.batch = {
+      maxItems: Number(sinkConfig.batchSize) || 0,
+      maxDelayMs: Number(sinkConfig.batchDelayMs) || 1000,
+      partialFailure: sinkConfig.partialFailure === 'retry' ? 'retry' : 'drop',
+    };
+    this.spoolDir = sinkConfig.spoolDir || '';
+  }
+
+  // Open the disk spool and deliver the pushes left by a previous run
+  start(): void {
+    if (!this.spoolDir || this.pushQueue) return;
+    const spool = new DiskSpool(this.spoolDir, {
+      sink: this.name,
+      maxBytes: config.spool.maxBytes,
+      maxAgeMs: config.spool.maxAgeMs,
+    });
+    spool.open();
+    this.pushQueue = new PushQueue(
+      spool,
+      (record, retry) => retry
+        ? this.postWithRetry(record.url, record.payload, record.kind)
+        : this.post(record.url, record.payload, record.kind),
+      config.spool.retryIntervalMs
+    );
+    setSpoolStats(this.name, this.pushQueue);
+    this.pushQueue.start();
+    logger.info('[SPOOL] Pushes of sink %s are spooled to %s while its endpoint is unavailable', this.name, this.spoolDir);
+  }
+
+  // Stop delivering, bars waiting for their batch are spooled when the spool is enabled
+  stop(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    if (this.pushQueue && this.pendingBars.length > 0) {
+      this.pushQueue.defer(this.urls.bar, 'bar batch', this.pendingBars.splice(0));
+    }
+    this.pushQueue?.stop();
+  }
+
+  async send(event: SinkEvent): Promise<boolean> {
+    if (event.type === 'bar' && this.batch.maxItems > 1) {
+      this.batchBar(event.payload);
+      return true;
+    }
+    return this.deliver(this.urls[event.type], event.payload, EVENT_KINDS[event.type]);
+  }
+
+  isHealthy(): boolean {
+    return super.isHealthy() && (this.pushQueue?.size() || 0) === 0;
+  }
+
+  protected pending(): number {
+    return this.pendingBars.length + (this.pushQueue?.size() || 0);
+  }
+
+  protected async write(event: SinkEvent): Promise<void> {
+    await this.request(this.urls[event.type], event.payload);
+  }
+
+  // Add a bar to the current batch, sending it once full or after maxDelayMs
+  private batchBar(payload: object): void {
+    this.pendingBars.push(payload);
+    if (this.pendingBars.length >= this.batch.maxItems) {
+      this.flushBars();
+    } else if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => this.flushBars(), this.batch.maxDelayMs);
+    }
+  }
+
+  private async flushBars(): Promise<void> {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    const items = this.pendingBars.splice(0);
+    if (items.length === 0) return;
+    await this.deliver(this.urls.bar, items, 'bar batch');
+  }
+
+  // Send a payload, through the disk spool when enabled
+  private async deliver(url: string, payload: object, kind: string): Promise<boolean> {
+    if (this.pushQueue) {
+      return this.pushQueue.push(url, kind, payload);
+    }
+    return this.postWithRetry(url, payload, kind);
+  }
+
+  // Send one request, returns the response body
+  private async request(url: string, payload: object): Promise<any> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Api-Key': this.apiKey,
+    };
+    const json = JSON.stringify(payload);
+    // Signed at every attempt, the timestamp is the time the request is sent
+    if (this.signingSecret) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      headers[SIGNATURE_TIMESTAMP_HEADER] = String(timestamp);
+      headers[SIGNATURE_HEADER] = signBody(this.signingSecret, timestamp, json);
+    }
+    const key = (payload as { idempotencyKey?: string }).idempotencyKey;
+    if (key) headers[IDEMPOTENCY_HEADER] = key;
+    let body: string | Buffer = json;
+    if (this.gzip) {
+      body = zlib.gzipSync(json);
+      headers['Content-Encoding'] = 'gzip';
+    }
+    const end = httpPushLatency.startTimer();
+    const endSink = sinkWriteLatency.startTimer({ sink: this.name });
+    try {
+      const response = await axios.post(url, body, { headers });
+      return response.data;
+    } finally {
+      end();
+      endSink();
+    }
+  }
+
+  // POST a payload once
+  private async post(url: string, payload: object, kind: string, attempt: number = 1): Promise<boolean> {
+    let data: any;
+    try {
+      data = await this.request(url, payload);
+    } catch (err) {
+      this.markFailure(err as Error);
+      logger.error('[SINK] %s: failed to push %s (attempt %d): %s', this.name, kind, attempt, (err as Error).message);
+      return false;
+    }
+    logger.debug('[SINK] %s: pushed %s: %o', this.name, kind, payload);
+    if (Array.isArray(payload)) {
+      await this.settleBatch(url, payload, kind, data);
+    } else {
+      this.markSuccess(1);
+      if (kind === 'bar') barsPushedTotal.inc();
+    }
+    return true;
+  }
+
+  /**
+   * Count the bars of a delivered batch the endpoint accepted and handle the rejected ones.
+   * The endpoint reports rejected items by index in the response: { "rejected": [0, 3] }
+   */
+  private async settleBatch(url: string, items: object[], kind: string, data: any, retries: number = 0): Promise<void> {
+    const rejected: number[] = Array.isArray(data?.rejected)
+      ? data.rejected.filter((i: any) => Number.isInteger(i) && i >= 0 && i < items.length)
+      : [];
+    this.markSuccess(items.length - rejected.length);
+    barsPushedTotal.inc(items.length - rejected.length);
+    if (rejected.length === 0) return;
+
+    const failed = rejected.map(i => items[i]);
+    if (this.batch.partialFailure !== 'retry' || retries >= this.retry.attempts - 1) {
+      logger.error('[SINK] %s: endpoint rejected %d of %d items of %s, dropping them', this.name, failed.length, items.length, kind);
+      this.markDropped(failed.length);
+      return;
+    }
+
+    logger.warn('[SINK] %s: endpoint rejected %d of %d items of %s, sending them again', this.name, failed.length, items.length, kind);
+    await delay(this.retry.backoffMs);
+    let retryData: any;
+    try {
+      retryData = await this.request(url, failed);
+    } catch (err) {
+      logger.error('[SINK] %s: failed to push rejected items of %s, dropping %d items: %s', this.name, kind, failed.length, (err as Error).message);
+      this.markFailure(err as Error);
+      this.markDropped(failed.length);
+      return;
+    }
+    await this.settleBatch(url, failed, kind, retryData, retries + 1);
+  }
+
+  // POST a payload, retrying with backoff
+  private async postWithRetry(url: string, payload: object, kind: string): Promise<boolean> {
+    for (let attempt = 1; attempt <= this.retry.attempts; attempt++) {
+      if (await this.post(url, payload, kind, attempt)) {
+        return true;
+      }
+      if (attempt < this.retry.attempts) await delay(this.retry.backoffMs);
+    }
+    if (this.pushQueue) {
+      logger.error('[SINK] %s: spooling %s after %d failed attempts', this.name, kind, this.retry.attempts);
+    } else {
+      logger.error('[SINK] %s: giving up on pushing %s after %d attempts', this.name, kind, this.retry.attempts);
+      this.markDropped(Array.isArray(payload) ? payload.length : 1);
+    }
+    return false;
+  }
+}
+
+/**
+ * Appends events as JSON lines to a file, rotated once it reaches maxBytes.
+ *
+ * Options: path, maxBytes (default 100MB, no rotation if 0) and maxFiles, the number
+ * of rotated files kept as path.1 (newest) to path.N (default 5).
+ */
+export class FileSink extends Sink {
+  private file: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private bytes = 0;
+
+  constructor(sinkConfig: SinkConfig) {
+    super(sinkConfig);
+    if (!sinkConfig.path) throw new Error(`Sink "${this.name}": path is required`);
+    this.file = sinkConfig.path;
+    this.maxBytes = sinkConfig.maxBytes === undefined ? 100 * 1024 * 1024 : Number(sinkConfig.maxBytes) || 0;
+    this.maxFiles = Math.max(1, Number(sinkConfig.maxFiles) || 5);
+  }
+
+  start(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    this.bytes = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+    logger.info('[SINK] %s: writing to %s', this.name, this.file);
+  }
+
+  protected async write(event: SinkEvent): Promise<void> {
+    const line = toLine(event);
+    const bytes = Buffer.byteLength(line);
+    if (this.maxBytes > 0 && this.bytes > 0 && this.bytes + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.file, line);
+    this.bytes += bytes;
+  }
+
+  // Shift path.1..path.N-1 up by one and move the current file to path.1
+  private rotate(): void {
+    fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${this.file}.${i}`)) fs.renameSync(`${this.file}.${i}`, `${this.file}.${i + 1}`);
+    }
+    fs.renameSync(this.file, `${this.file}.1`);
+    this.bytes = 0;
+    logger.info('[SINK] %s: rotated %s', this.name, this.file);
+  }
+}
+
+/**
+ * Writes events as JSON lines to the standard output, or the standard error with
+ * { "stream": "stderr" }. Console logs go to the standard output too.
+ */
+export class StdoutSink extends Sink {
+  private stream: NodeJS.WriteStream;
+
+  constructor(sinkConfig: SinkConfig) {
+    super(sinkConfig);
+    this.stream = sinkConfig.stream === 'stderr' ? process.stderr : process.stdout;
+  }
+
+  protected write(event: SinkEvent): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.write(toLine(event), err => err ? reject(err) : resolve());
+    });
+  }
+}
+
+/**
+ * Publishes events as JSON to a Redis pub/sub channel.
+ *
+ * Options: url (redis://[[user]:password@]host[:port][/db], default redis://127.0.0.1:6379)
+ * and channel (default tv-fetcher). Speaks the Redis protocol directly over one connection,
+ * opened on first use and again after it is lost.
+ */
+export class RedisSink extends Sink {
+  private host: string;
+  private port: number;
+  private username: string;
+  private password: string;
+  private db: number;
+  private channel: string;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  // Callbacks of the commands waiting for a reply, replies come in order
+  private replies: { resolve: (reply: string | number) => void; reject: (err: Error) => void }[] = [];
+  private buffer = '';
+
+  constructor(sinkConfig: SinkConfig) {
+    super(sinkConfig);
+    let url: URL;
+    try {
+      url = new URL(sinkConfig.url || 'redis://127.0.0.1:6379');
+    } catch {
+      throw new Error(`Sink "${this.name}": invalid url`);
+    }
+    if (url.protocol !== 'redis:') throw new Error(`Sink "${this.name}": url must start with redis://`);
+    this.host = url.hostname || '127.0.0.1';
+    this.port = Number(url.port) || 6379;
+    this.username = decodeURIComponent(url.username);
+    this.password = decodeURIComponent(url.password);
+    this.db = parseInt(url.pathname.slice(1)) || 0;
+    this.channel = sinkConfig.channel || 'tv-fetcher';
+  }
+
+  stop(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  protected async write(event: SinkEvent): Promise<void> {
+    await this.command(await this.getSocket(), ['PUBLISH', this.channel, toLine(event).trimEnd()]);
+  }
+
+  private getSocket(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  // Connect, authenticate and select the database
+  private async open(): Promise<net.Socket> {
+    const socket = await connect(this.host, this.port);
+    socket.setEncoding('utf8');
+    socket.on('data', (data: string) => this.onData(data));
+    socket.on('error', err => logger.warn('[SINK] %s: Redis connection error: %s', this.name, err.message));
+    socket.on('close', () => {
+      if (this.socket === socket) this.socket = null;
+      for (const reply of this.replies.splice(0)) reply.reject(new Error('Redis connection closed'));
+      this.buffer = '';
+    });
+    try {
+      if (this.password) {
+        await this.command(socket, this.username ? ['AUTH', this.username, this.password] : ['AUTH', this.password]);
+      }
+      if (this.db) await this.command(socket, ['SELECT', String(this.db)]);
+    } catch (err) {
+      socket.destroy();
+      throw err;
+    }
+    logger.info('[SINK] %s: connected to Redis %s:%d', this.name, this.host, this.port);
+    this.socket = socket;
+    return socket;
+  }
+
+  // Send a command and wait for its reply
+  private command(socket: net.Socket, args: string[]): Promise<string | number> {
+    const request = `*${args.length}\r\n` + args.map(a => `$${Buffer.byteLength(a)}\r\n${a}\r\n`).join('');
+    return new Promise((resolve, reject) => {
+      this.replies.push({ resolve, reject });
+      socket.write(request);
+    });
+  }
+
+  // Parse the replies received so far (status, error, integer and bulk string replies)
+  private onData(data: string): void {
+    this.buffer += data;
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n');
+      if (end < 0) return;
+      const line = this.buffer.slice(0, end);
+      let rest = this.buffer.slice(end + 2);
+      let value: string | number | Error;
+      if (line[0] === '$') {
+        const length = parseInt(line.slice(1));
+        if (length < 0) {
+          value = '';
+        } else {
+          const bytes = Buffer.from(rest);
+          if (bytes.length < length + 2) return;
+          value = bytes.subarray(0, length).toString();
+          rest = bytes.subarray(length + 2).toString();
+        }
+      } else if (line[0] === '-') {
+        value = new Error(line.slice(1));
+      } else {
+        value = line[0] === ':' ? parseInt(line.slice(1)) : line.slice(1);
+      }
+      this.buffer = rest;
+      const reply = this.replies.shift();
+      if (value instanceof Error) reply?.reject(value);
+      else reply?.resolve(value);
+    }
+  }
+}
+
+/**
+ * Sends events as JSON lines over a TCP connection.
+ *
+ * Options: host (default 127.0.0.1) and port. The connection is opened on first use
+ * and again after it is lost.
+ */
+export class TcpSink extends Sink {
+  private host: string;
+  private port: number;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+
+  constructor(sinkConfig: SinkConfig) {
+    super(sinkConfig);
+    this.host = sinkConfig.host || '127.0.0.1';
+    this.port = Number(sinkConfig.port);
+    if (!(this.port > 0)) throw new Error(`Sink "${this.name}": port is required`);
+  }
+
+  stop(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  protected async write(event: SinkEvent): Promise<void> {
+    const socket = await this.getSocket();
+    await new Promise<void>((resolve, reject) => {
+      socket.write(toLine(event), err => err ? reject(err) : resolve());
+    });
+  }
+
+  private getSocket(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (!this.connecting) {
+      this.connecting = connect(this.host, this.port)
+        .then(socket => {
+          socket.on('error', err => logger.warn('[SINK] %s: connection error: %s', this.name, err.message));
+          socket.on('close', () => {
+            if (this.socket === socket) this.socket = null;
+          });
+          // Nothing is expected back
+          socket.resume();
+          logger.info('[SINK] %s: connected to %s:%d', this.name, this.host, this.port);
+          this.socket = socket;
+          return socket;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+    return this.connecting;
+  }
+}
+
+/**
+ * Sink of the BACKEND_* settings, used when SINKS is not set.
+ * Only the kinds of data with an endpoint configured are pushed.
+ */
+function backendSinkConfig(): SinkConfig | null {
+  const urls = {
+    bar: config.backend.endpoint,
+    indicator: config.backend.indicatorEndpoint,
+    ta_change: config.ta.endpoint,
+  };
+  const events = SINK_EVENT_TYPES.filter(type => urls[type]);
+  if (events.length === 0) return null;
+  return {
+    type: 'http',
+    name: 'backend',
+    events,
+    barMode: config.backend.barMode,
+    url: urls.bar,
+    indicatorUrl: urls.indicator,
+    taUrl: urls.ta_change,
+    apiKey: config.backend.apiKey,
+    signingSecret: config.backend.signingSecret,
+    gzip: config.backend.gzip,
+    batchSize: config.backend.batch.maxItems,
+    batchDelayMs: config.backend.batch.maxDelayMs,
+    partialFailure: config.backend.batch.partialFailure,
+    spoolDir: config.spool.dir,
+  };
+}
+
+/**
+ * Build the configured sinks (SINKS, or the backend settings), throws if one is invalid
+ */
+export function createSinks(): Sink[] {
+  const configs = config.sinks.length > 0 ? config.sinks : [backendSinkConfig()].filter((c): c is SinkConfig => !!c);
+  return configs.map(sinkConfig => {
+    switch (sinkConfig.type) {
+      case 'http': return new HttpSink(sinkConfig);
+      case 'file': return new FileSink(sinkConfig);
+      case 'stdout': return new StdoutSink(sinkConfig);
+      case 'redis': return new RedisSink(sinkConfig);
+      case 'tcp': return new TcpSink(sinkConfig);
+    }
+  });
+}
@@ -0,0 +1,326 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { spoolDroppedTotal } from './metrics';
+
+// Backend push waiting in the spool
+export interface SpoolRecord {
+  url: string;
+  // What is pushed, for logs (bar, indicator value, ...)
+  kind: string;
+  payload: object;
+  // Time the record was spooled (unix milliseconds)
+  time: number;
+}
+
+export interface SpoolOptions {
+  // Sink the spool belongs to, for metrics
+  sink: string;
+  // Total size of the segment files, the oldest segments are dropped beyond it
+  maxBytes: number;
+  // Records older than this are dropped instead of delivered (no limit if 0)
+  maxAgeMs: number;
+}
+
+// Segment file of the spool, records are appended one JSON line each
+interface Segment {
+  file: string;
+  bytes: number;
+  count: number;
+}
+
+const SEGMENT_EXTENSION = '.ndjson';
+// Size at which a new segment file is started
+const MAX_SEGMENT_BYTES = 4 * 1024 * 1024;
+
+/**
+ * First-in first-out queue of records stored in append-only segment files.
+ *
+ * Records are appended to the newest segment; the oldest segment is read into memory
+ * when delivery reaches it and deleted once all its records are acknowledged.
+ * Delivery is at-least-once: records acknowledged right before a crash may be read again.
+ */
+export class DiskSpool {
+  private dir: string;
+  private options: SpoolOptions;
+  private segments: Segment[] = [];
+  // Segment records are appended to, null until the next append starts a new one
+  private writable: Segment | null = null;
+  private nextSegment = 1;
+  // Records of the oldest segment, with the index of the next record to deliver
+  private head: { records: SpoolRecord[]; index: number } | null = null;
+  private depth = 0;
+
+  constructor(dir: string, options: SpoolOptions) {
+    this.dir = dir;
+    this.options = options;
+  }
+
+  /**
+   * Load the segments left by a previous run. New records go to a new segment,
+   * the last one may end with a record cut by a crash.
+   */
+  open(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const files = fs.readdirSync(this.dir).filter(f => f.endsWith(SEGMENT_EXTENSION)).sort();
+    for (const name of files) {
+      const file = path.join(this.dir, name);
+      const content = fs.readFileSync(file, 'utf8');
+      const count = content.split('\n').filter(line => line.trim()).length;
+      this.segments.push({ file, bytes: Buffer.byteLength(content), count });
+      this.depth += count;
+      this.nextSegment = Math.max(this.nextSegment, parseInt(name) + 1 || 0);
+    }
+    if (this.depth > 0) {
+      logger.warn('[SPOOL] %d spooled records found in %s, they will be delivered first', this.depth, this.dir);
+    }
+  }
+
+  /**
+   * Append a record, dropping the oldest segments if the spool grows beyond maxBytes
+   */
+  append(record: SpoolRecord): void {
+    const line = JSON.stringify(record) + '\n';
+    const bytes = Buffer.byteLength(line);
+    const segmentBytes = Math.min(MAX_SEGMENT_BYTES, Math.max(Math.floor(this.options.maxBytes / 4), 1));
+    let segment = this.writable;
+    if (!segment || segment.bytes + bytes > segmentBytes) {
+      const name = String(this.nextSegment++).padStart(10, '0') + SEGMENT_EXTENSION;
+      segment = { file: path.join(this.dir, name), bytes: 0, count: 0 };
+      this.segments.push(segment);
+      this.writable = segment;
+    }
+    fs.appendFileSync(segment.file, line);
+    segment.bytes += bytes;
+    segment.count++;
+    this.depth++;
+    this.enforceMaxBytes();
+  }
+
+  /**
+   * Get the oldest record without removing it, records older than maxAgeMs are dropped
+   */
+  peek(): SpoolRecord | null {
+    while (this.segments.length > 0) {
+      const head = this.loadHead();
+      if (head.index < head.records.length) {
+        const record = head.records[head.index];
+        if (this.options.maxAgeMs > 0 && Date.now() - record.time > this.options.maxAgeMs) {
+          head.index++;
+          this.depth--;
+          spoolDroppedTotal.inc({ sink: this.options.sink, reason: 'age' });
+          continue;
+        }
+        return record;
+      }
+      this.removeHeadSegment();
+    }
+    return null;
+  }
+
+  /**
+   * Acknowledge the record returned by peek(), unless it was dropped in the meantime
+   */
+  shift(record: SpoolRecord): void {
+    if (!this.head || this.head.records[this.head.index] !== record) return;
+    this.head.index++;
+    this.depth--;
+    if (this.head.index >= this.head.records.length) {
+      this.removeHeadSegment();
+    }
+  }
+
+  // Number of records waiting
+  size(): number {
+    return this.depth;
+  }
+
+  // Time the oldest waiting record was spooled (unix milliseconds), null if empty
+  oldestTime(): number | null {
+    return this.peek()?.time ?? null;
+  }
+
+  private loadHead(): { records: SpoolRecord[]; index: number } {
+    if (this.head) return this.head;
+    const segment = this.segments[0];
+    // The segment being delivered is never appended to, its records are read once
+    if (this.writable === segment) this.writable = null;
+    const records: SpoolRecord[] = [];
+    let content = '';
+    try {
+      content = fs.readFileSync(segment.file, 'utf8');
+    } catch (err) {
+      logger.error('[SPOOL] Failed to read segment %s: %s', segment.file, (err as Error).message);
+    }
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A line cut by a crash while appending
+        logger.warn('[SPOOL] Skipping corrupted record in %s', segment.file);
+      }
+    }
+    // Keep the depth in line with what is actually readable
+    this.depth += records.length - segment.count;
+    segment.count = records.length;
+    this.head = { records, index: 0 };
+    return this.head;
+  }
+
+  private removeHeadSegment(): void {
+    const segment = this.segments.shift();
+    if (!segment) return;
+    if (this.writable === segment) this.writable = null;
+    if (this.head) {
+      this.depth -= this.head.records.length - this.head.index;
+      this.head = null;
+    } else {
+      this.depth -= segment.count;
+    }
+    try {
+      fs.unlinkSync(segment.file);
+    } catch (err) {
+      logger.error('[SPOOL] Failed to delete segment %s: %s', segment.file, (err as Error).message);
+    }
+  }
+
+  private enforceMaxBytes(): void {
+    let total = this.segments.reduce((sum, s) => sum + s.bytes, 0);
+    // The segment being written is always kept
+    while (total > this.options.maxBytes && this.segments.length > 1) {
+      const segment = this.segments[0];
+      const lost = this.head ? this.head.records.length - this.head.index : segment.count;
+      logger.error('[SPOOL] Spool exceeds %d bytes, dropping %d oldest records', this.options.maxBytes, lost);
+      spoolDroppedTotal.inc({ sink: this.options.sink, reason: 'size' }, lost);
+      total -= segment.bytes;
+      this.removeHeadSegment();
+    }
+  }
+}
+
+/**
+ * Delivers backend pushes, spooling them to disk while the backend is unavailable.
+ *
+ * While the spool is empty records are sent right away, one at a time: a record waits
+ * for the send of the previous one. Once a send fails for good the record is spooled and
+ * every following record goes to the spool too, so that they are delivered in order when
+ * the backend is back.
+ */
+export class PushQueue {
+  private spool: DiskSpool;
+  private send: (record: SpoolRecord, retry: boolean) => Promise<boolean>;
+  private retryIntervalMs: number;
+  private draining = false;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  // Settles once the last pushed record has been sent or spooled
+  private lastPush: Promise<void> = Promise.resolve();
+
+  /**
+   * @param send delivers one record, `retry` tells whether it may retry on its own
+   */
+  constructor(spool: DiskSpool, send: (record: SpoolRecord, retry: boolean) => Promise<boolean>, retryIntervalMs: number) {
+    this.spool = spool;
+    this.send = send;
+    this.retryIntervalMs = retryIntervalMs;
+  }
+
+  // Start delivering records left in the spool by a previous run
+  start(): void {
+    this.stopped = false;
+    if (this.spool.size() > 0) this.drain();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deliver a record, or spool it behind the records already waiting
+   */
+  async push(url: string, kind: string, payload: object): Promise<boolean> {
+    const record: SpoolRecord = { url, kind, payload, time: Date.now() };
+    const previous = this.lastPush;
+    let settled!: () => void;
+    this.lastPush = new Promise<void>(resolve => settled = resolve);
+    try {
+      // Sent or spooled only after the previous record, which may have started the spool
+      await previous;
+      if (this.spool.size() === 0 && await this.send(record, true)) {
+        return true;
+      }
+      const wasEmpty = this.spool.size() === 0;
+      this.spool.append(record);
+      if (wasEmpty) {
+        logger.warn('[SPOOL] Backend unavailable, spooling pushes to disk');
+      }
+      // A failed delivery waits for its retry timer
+      if (!this.draining && !this.timer) {
+        this.drain();
+      }
+      return false;
+    } finally {
+      settled();
+    }
+  }
+
+  /**
+   * Spool a record without trying to send it first (e.g. on shutdown)
+   */
+  defer(url: string, kind: string, payload: object): void {
+    this.spool.append({ url, kind, payload, time: Date.now() });
+  }
+
+  // Number of records waiting
+  size(): number {
+    return this.spool.size();
+  }
+
+  // Age of the oldest waiting record in seconds (0 if empty)
+  oldestAgeSeconds(): number {
+    const oldest = this.spool.oldestTime();
+    return oldest === null ? 0 : (Date.now() - oldest) / 1000;
+  }
+
+  // Send spooled records in order, waiting retryIntervalMs after each failure
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    let delivered = 0;
+    try {
+      let record = this.spool.peek();
+      while (record && !this.stopped) {
+        if (!await this.send(record, false)) {
+          logger.warn('[SPOOL] Backend still unavailable, %d records spooled, retrying in %ds',
+            this.spool.size(), Math.round(this.retryIntervalMs / 1000));
+          this.draining = false;
+          this.scheduleDrain();
+          return;
+        }
+        this.spool.shift(record);
+        delivered++;
+        record = this.spool.peek();
+      }
+      if (!record) {
+        logger.info('[SPOOL] Spool drained, %d records delivered', delivered);
+      }
+    } catch (err) {
+      logger.error('[SPOOL] Spool delivery failed: %s', (err as Error).message);
+      this.scheduleDrain();
+    }
+    this.draining = false;
+  }
+
+  private scheduleDrain(): void {
+    if (this.timer || this.stopped) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, this.retryIntervalMs);
+  }
+}
@@ -0,0 +1,166 @@
+import { EventEmitter } from 'events';
+import { config } from './config';
+import { logger } from './logger';
+
+// Import TradingView API from local vendor directory
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const TradingViewAPI = require('../tradingview_vendor/main');
+
+export type Recommendation = 'STRONG_BUY' | 'BUY' | 'NEUTRAL' | 'SELL' | 'STRONG_SELL';
+
+// Rating of one group of indicators, score goes from -1 (strong sell) to 1 (strong buy)
+export interface TARating {
+  score: number;
+  recommendation: Recommendation;
+}
+
+// Ratings of one timeframe: summary, moving averages and oscillators
+export interface TAPeriod {
+  all: TARating;
+  ma: TARating;
+  oscillators: TARating;
+}
+
+export interface TechnicalAnalysis {
+  symbol: string;
+  // Time the analysis was fetched (unix milliseconds)
+  time: number;
+  // Ratings by timeframe ('1', '5', '15', '60', '240', 'D', 'W', 'M')
+  periods: Record<string, TAPeriod>;
+}
+
+// Summary recommendation of a symbol/timeframe that changed between two polls
+export interface TAChange {
+  symbol: string;
+  timeframe: string;
+  previous: Recommendation;
+  recommendation: Recommendation;
+  rating: TAPeriod;
+  time: number;
+}
+
+// TradingView names daily and larger periods differently from chart timeframes
+const PERIOD_TIMEFRAMES: Record<string, string> = { '1D': 'D', '1W': 'W', '1M': 'M' };
+
+// Same thresholds as the TradingView technicals widget
+function toRecommendation(score: number): Recommendation {
+  if (score >= 0.5) return 'STRONG_BUY';
+  if (score >= 0.1) return 'BUY';
+  if (score > -0.1) return 'NEUTRAL';
+  if (score > -0.5) return 'SELL';
+  return 'STRONG_SELL';
+}
+
+function toRating(value: number): TARating {
+  // The vendor doubles the scanner value, bring it back to -1..1
+  const score = Math.round((value / 2) * 1000) / 1000;
+  return { score, recommendation: toRecommendation(score) };
+}
+
+/**
+ * Fetch the technical analysis summary of a symbol for every timeframe
+ */
+export async function getTechnicalAnalysis(symbol: string): Promise<TechnicalAnalysis> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Technical analysis request timed out')), config.tvApi.timeoutMs);
+  });
+  try {
+    const advice = await Promise.race([TradingViewAPI.getTA(symbol), timeout]);
+    if (!advice) throw new Error(`No technical analysis available for ${symbol}`);
+
+    const periods: Record<string, TAPeriod> = {};
+    for (const [period, values] of Object.entries<any>(advice)) {
+      periods[PERIOD_TIMEFRAMES[period] || period] = {
+        all: toRating(values.All),
+        ma: toRating(values.MA),
+        oscillators: toRating(values.Other),
+      };
+    }
+    return { symbol, time: Date.now(), periods };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Periodically fetches technical analysis of configured symbols and emits
+ * 'change' (TAChange) when the summary recommendation of a timeframe flips.
+ */
+export class TAPoller extends EventEmitter {
+  private symbols: string[];
+  private intervalMs: number;
+  // Timeframes watched for changes (all if empty)
+  private timeframes: string[];
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  // Last summary recommendation by symbol and timeframe
+  private last: Map<string, Map<string, Recommendation>> = new Map();
+
+  constructor(symbols: string[], intervalMs: number, timeframes: string[] = []) {
+    super();
+    this.symbols = symbols;
+    this.intervalMs = intervalMs;
+    this.timeframes = timeframes;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    logger.info('[TA] Polling technical analysis of %d symbols every %ds', this.symbols.length, Math.round(this.intervalMs / 1000));
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('[TA] Technical analysis poller stopped');
+    }
+  }
+
+  // Fetch every symbol once, skipped if the previous round is still running
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const symbol of this.symbols) {
+        try {
+          this.update(await getTechnicalAnalysis(symbol));
+        } catch (err) {
+          logger.warn('[TA] Failed to fetch technical analysis for %s: %s', symbol, (err as Error).message);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private update(analysis: TechnicalAnalysis): void {
+    let last = this.last.get(analysis.symbol);
+    const isFirst = !last;
+    if (!last) {
+      last = new Map();
+      this.last.set(analysis.symbol, last);
+    }
+
+    for (const [timeframe, rating] of Object.entries(analysis.periods)) {
+      if (this.timeframes.length > 0 && !this.timeframes.includes(timeframe)) continue;
+      const previous = last.get(timeframe);
+      last.set(timeframe, rating.all.recommendation);
+      // The first round only records the current state
+      if (isFirst || !previous || previous === rating.all.recommendation) continue;
+
+      const change: TAChange = {
+        symbol: analysis.symbol,
+        timeframe,
+        previous,
+        recommendation: rating.all.recommendation,
+        rating,
+        time: analysis.time,
+      };
+      logger.info('[TA] %s/%s recommendation changed: %s -> %s', change.symbol, timeframe, previous, change.recommendation);
+      this.emit('change', change);
+    }
+  }
+}
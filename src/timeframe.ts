@@ -0,0 +1,82 @@
+// Units of a timeframe, hours are counted in minutes as TradingView does ('60', '240')
+export type TimeframeUnit = 'second' | 'minute' | 'day' | 'week' | 'month';
+
+export interface Timeframe {
+  unit: TimeframeUnit;
+  count: number;
+}
+
+// Timeframe suffixes: TradingView ones ('5S', 'D', '3D', 'W', '12M') and human ones ('5m', '1h', '1d', '1w')
+const SUFFIXES: Record<string, { unit: TimeframeUnit; multiplier: number }> = {
+  '': { unit: 'minute', multiplier: 1 },
+  m: { unit: 'minute', multiplier: 1 },
+  h: { unit: 'minute', multiplier: 60 },
+  H: { unit: 'minute', multiplier: 60 },
+  s: { unit: 'second', multiplier: 1 },
+  S: { unit: 'second', multiplier: 1 },
+  d: { unit: 'day', multiplier: 1 },
+  D: { unit: 'day', multiplier: 1 },
+  w: { unit: 'week', multiplier: 1 },
+  W: { unit: 'week', multiplier: 1 },
+  M: { unit: 'month', multiplier: 1 },
+};
+
+const UNIT_SECONDS: Record<Exclude<TimeframeUnit, 'month'>, number> = {
+  second: 1,
+  minute: 60,
+  day: 24 * 60 * 60,
+  week: 7 * 24 * 60 * 60,
+};
+
+// Average month length, for durations only (buckets use calendar months)
+const MONTH_SECONDS = 30 * UNIT_SECONDS.day;
+
+/**
+ * Parse a timeframe ('1', '60', '5S', '1h', 'D', '3D', 'W', '12M', ...).
+ * Note that 'm' is minutes and 'M' months.
+ */
+export function parseTimeframe(value: string | number): Timeframe {
+  const text = String(value).trim();
+  const match = /^(\d*)([a-zA-Z]?)$/.exec(text);
+  const suffix = match ? SUFFIXES[match[2]] : undefined;
+  const count = match && match[1] ? parseInt(match[1], 10) : 1;
+  if (!match || !suffix || !text || !(count > 0)) {
+    throw new Error(`Invalid timeframe "${value}", expected e.g. 1, 60, 5S, 1h, D, 3D, W or 12M`);
+  }
+  return { unit: suffix.unit, count: count * suffix.multiplier };
+}
+
+/**
+ * Format a timeframe the way TradingView names it ('1', '240', '5S', 'D', '3D', 'W', '12M')
+ */
+export function formatTimeframe(timeframe: Timeframe): string {
+  switch (timeframe.unit) {
+    case 'second': return `${timeframe.count}S`;
+    case 'minute': return String(timeframe.count);
+    default: {
+      const suffix = timeframe.unit === 'day' ? 'D' : timeframe.unit === 'week' ? 'W' : 'M';
+      return timeframe.count === 1 ? suffix : `${timeframe.count}${suffix}`;
+    }
+  }
+}
+
+/**
+ * TradingView name of a timeframe, so that '1h' and '60' are the same chart. Throws if invalid.
+ */
+export function normalizeTimeframe(value: string | number): string {
+  return formatTimeframe(parseTimeframe(value));
+}
+
+// Exact length of a timeframe in seconds, null for months (calendar based)
+export function timeframeSeconds(timeframe: Timeframe): number | null {
+  if (timeframe.unit === 'month') return null;
+  return timeframe.count * UNIT_SECONDS[timeframe.unit];
+}
+
+/**
+ * Expected time between two bars in milliseconds, months count as 30 days
+ */
+export function timeframeDurationMs(value: string | Timeframe): number {
+  const timeframe = typeof value === 'string' ? parseTimeframe(value) : value;
+  return (timeframeSeconds(timeframe) ?? timeframe.count * MONTH_SECONDS) * 1000;
+}
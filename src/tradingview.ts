@@ -1,8 +1,10 @@
 import { EventEmitter } from 'events';
 import { config } from './config';
-import type { Subscription } from './config';
+import { subscriptionKey } from './config';
+import { normalizeTimeframe } from './timeframe';
+import type { Subscription, IndicatorSubscription, ChartOptions, BarMode, EmitPolicy } from './config';
 import { logger, priceLogger } from './logger';
-import { wsConnectsTotal, wsErrorsTotal, subscriptionsGauge } from './metrics';
+import { wsConnectsTotal, wsErrorsTotal, subscriptionsGauge, barUpdatesSuppressedTotal } from './metrics';
 
 // Import TradingView API from local vendor directory
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -17,12 +19,222 @@ export interface Bar {
   low: number;
   close: number;
   volume: number;
+  // True for the final values of a finished candle, false for in-progress updates
+  isClosed: boolean;
+  // Chart options of the subscription, only set for non-default charts
+  options?: ChartOptions;
+  // Set on bars of a replay session, these never reach the backend
+  replayId?: string;
+  // Set on closed bars missed during an outage and emitted after the resubscribe
+  backfilled?: boolean;
+}
+
+// Real-time quote of a symbol (latest value of every requested quote field)
+export interface Quote {
+  symbol: string;
+  // Time the update was received (unix milliseconds)
+  time: number;
+  fields: Record<string, any>;
+}
+
+// Plotted values of an indicator study for one period
+export interface IndicatorValue {
+  // Indicator subscription id, see indicatorId()
+  id: string;
+  symbol: string;
+  timeframe: string;
+  indicator: string;
+  time: number;
+  // Values by plot name (e.g. { "Plot": 54.2 })
+  values: Record<string, number>;
+  // True for the final values of a finished period, false for in-progress updates
+  isClosed: boolean;
+}
+
+// Check if a bar (or indicator value) should be delivered to a consumer using the given bar mode.
+// Backfilled bars are the only values of their period a consumer gets, so they match every mode.
+export function matchesBarMode(bar: { isClosed: boolean; backfilled?: boolean }, mode: BarMode): boolean {
+  if (mode === 'both' || bar.backfilled) return true;
+  return mode === 'closed' ? bar.isClosed : !bar.isClosed;
+}
+
+// Identify an indicator subscription: the same indicator with the same inputs shares one study
+export function indicatorId(subscription: IndicatorSubscription): string {
+  const inputs = subscription.inputs || {};
+  const params = Object.keys(inputs).sort().map(k => `${k}=${JSON.stringify(inputs[k])}`).join(',');
+  return `${subscription.symbol}_${subscription.timeframe}_${subscription.indicator}@${subscription.version || 'last'}(${params})`;
+}
+
+// Indicator study attached to a chart
+interface IndicatorStudy {
+  subscription: IndicatorSubscription;
+  // Resolved BuiltInIndicator / PineIndicator instance
+  instance: any;
+  // Vendor study, null while the chart does not exist
+  study: any | null;
+  // Last in-progress value, to detect period close
+  lastValue: IndicatorValue | null;
+}
+
+// Options for a one-off historical bars request
+export interface HistoryOptions {
+  // Number of bars to return (default 100)
+  range?: number;
+  // Only return bars with time <= to (unix seconds, default is now)
+  to?: number;
+  // Chart type, session, currency and adjustment of the bars
+  chartOptions?: ChartOptions;
+}
+
+// Options for starting a replay session
+export interface ReplayOptions {
+  // Replay starting point (unix seconds)
+  from: number;
+  // Milliseconds between replayed bars while playing (default 1000)
+  intervalMs?: number;
+  // Chart type, session, currency and adjustment of the bars
+  chartOptions?: ChartOptions;
+}
+
+export type ReplayState = 'paused' | 'playing' | 'ended' | 'stopped';
+
+// Public state of a replay session
+export interface ReplayInfo {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  from: number;
+  intervalMs: number;
+  state: ReplayState;
+  // Current replay cursor (unix seconds), once known
+  time?: number;
+}
+
+// Replay session with its dedicated chart
+interface ReplaySession {
+  info: ReplayInfo;
+  chart: any;
+  // Connection of the chart, the session ends with it
+  connection: PoolConnection;
+  options?: ChartOptions;
+  lastBar: Bar | null;
+}
+
+// Reject if a vendor request gets no answer within the API timeout
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), config.tvApi.timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Upper bound for a single history request, to keep chart sessions small
+export const MAX_HISTORY_RANGE = 5000;
+
+// Maximum number of fetchMore() round trips for a single history request
+const MAX_HISTORY_FETCH_MORE = 5;
+
+// Last bar delivered for a subscription, to find the bars missed during an outage
+interface DeliveredBar {
+  time: number;
+  isClosed: boolean;
+}
+
+// One TradingView websocket (vendor client) of the connection pool
+interface PoolConnection {
+  id: number;
+  client: any;
+  // Subscription keys of the charts on this connection
+  charts: Set<string>;
+  alive: boolean;
+  // Set when the connection is closed on purpose, its disconnect is not a loss
+  closing: boolean;
+  // Time the current client was created (unix milliseconds)
+  createdAt: number;
+  // Number of times this connection was lost and replaced
+  losses: number;
+}
+
+// Connection state reported by /status
+export interface ConnectionStatus {
+  id: number;
+  connected: boolean;
+  charts: number;
+  subscriptions: string[];
+  quotes: boolean;
+  // ISO timestamp
+  createdAt: string;
+  losses: number;
+}
+
+// TradingView account state reported by /status
+export interface AuthStatus {
+  // How credentials are configured
+  method: 'none' | 'session' | 'login';
+  authenticated: boolean;
+  username: string | null;
+  // Subscription plan of the account (e.g. pro_premium), empty for free accounts, null if unknown
+  plan: string | null;
+  // Why the last authentication failed, connections are anonymous meanwhile
+  error: string | null;
+  // ISO timestamp of the last authentication attempt
+  checkedAt: string | null;
+}
+
+// Session cookies passed to the vendor clients
+interface SessionCredentials {
+  session: string;
+  signature: string;
+}
+
+// Unsubscribe reasons after which the subscription is expected back and missed bars are backfilled
+const RESUBSCRIBE_REASONS = ['recovery'];
+
+// Live updates emitted for a subscription under its emission policy
+interface EmitState {
+  // Last live bar emitted
+  emitted: Bar | null;
+  // Latest update held back by the throttle, emitted when the window ends
+  pending: Bar | null;
+  // Time the last live bar was emitted (unix milliseconds)
+  lastEmitAt: number;
+  timer: NodeJS.Timeout | null;
+}
+
+// Whether TradingView resolved the symbol of a chart, with its error text if it failed
+export interface ChartState {
+  status: 'loading' | 'loaded' | 'error';
+  error: string | null;
+}
+
+// Same period with the same values
+function sameBar(a: Bar | null, b: Bar): boolean {
+  return !!a && a.time === b.time && a.open === b.open && a.high === b.high
+    && a.low === b.low && a.close === b.close && a.volume === b.volume;
 }
 
 export class TradingViewClient extends EventEmitter {
-  private client: any;
+  private connections: PoolConnection[] = []; // Connection pool, charts are spread across its clients
+  private orphans: Map<string, Subscription> = new Map(); // Charts of a lost connection that found no room elsewhere
   private connected = false;
+  private credentials: SessionCredentials | null = null; // Session of the configured account, null for anonymous
+  private loginSession: SessionCredentials | null = null; // Session obtained with username/password, reused on reconnect
+  private auth: AuthStatus = { method: 'none', authenticated: false, username: null, plan: null, error: null, checkedAt: null };
   private charts: Map<string, any> = new Map(); // Track subscriptions for each symbol
+  private subscriptions: Map<string, Subscription> = new Map(); // Subscription of each chart, by subscription key
+  private lastBars: Map<string, Bar> = new Map(); // Last in-progress bar per subscription, to detect candle close
+  private chartStates: Map<string, ChartState> = new Map(); // Load state of each chart, by subscription key
+  private lastDelivered: Map<string, DeliveredBar> = new Map(); // Kept across resubscribes, for backfill
+  private emitStates: Map<string, EmitState> = new Map(); // Emission policy state per subscription
+  private quoteSession: any = null; // Shared quote session, created with the first quote subscription
+  private quoteConnection: PoolConnection | null = null; // Connection of the quote session
+  private quoteMarkets: Map<string, any> = new Map(); // Quote listeners per symbol
+  private quotedSymbols: Set<string> = new Set(); // Symbols TradingView sent quote data for, i.e. resolved
+  private indicators: Map<string, IndicatorStudy> = new Map(); // Indicator studies by indicator id
+  private replays: Map<string, ReplaySession> = new Map(); // Replay sessions by replay id
+  private replayCounter = 0;
+  private startingReplays = 0; // Replay sessions whose chart is still loading, they count towards the limit
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
   private readonly maxReconnectAttempts = 10;
@@ -34,22 +246,19 @@ export class TradingViewClient extends EventEmitter {
 
   async connect() {
     try {
-      logger.info('Creating TradingView client...');
+      await this.authenticate();
+      logger.info('Creating %d TradingView clients (%s)...', config.tvApi.connections, this.credentials ? `as ${this.auth.username}` : 'anonymous');
+      this.endConnections();
       
-      // Create TradingView API client
-      this.client = new TradingViewAPI.Client({
-        // Use proxy if specified in config
-        proxy: config.tvApi.proxy || undefined,
-        // Set connection timeout
-        timeout_ms: config.tvApi.timeoutMs
-      });
+      // Create the connection pool
+      for (let id = 1; id <= config.tvApi.connections; id++) {
+        const connection: PoolConnection = { id, client: null, charts: new Set(), alive: false, closing: false, createdAt: 0, losses: 0 };
+        this.openConnection(connection);
+        this.connections.push(connection);
+      }
       
       logger.info('TradingView client created successfully');
       
-      if (!this.client) {
-        throw new Error('Could not initialize TradingView client');
-      }
-      
       this.connected = true;
       this.reconnectAttempts = 0;
       wsConnectsTotal.inc();
@@ -64,6 +273,225 @@ export class TradingViewClient extends EventEmitter {
     }
   }
 
+  /**
+   * Resolve the session of the configured account: the session cookie, or a login with
+   * username/password (done once, its session is reused by later connects). Checks the
+   * session and reads the account plan. Never throws: on failure connections are anonymous.
+   */
+  private async authenticate(): Promise<void> {
+    const { sessionId, signature, username, password, location } = config.tvApi.auth;
+    const method = sessionId ? 'session' : username && password ? 'login' : 'none';
+    this.auth = { method, authenticated: false, username: null, plan: null, error: null, checkedAt: null };
+    this.credentials = null;
+    if (method === 'none') return;
+
+    this.auth.checkedAt = new Date().toISOString();
+    try {
+      let session: SessionCredentials;
+      if (method === 'session') {
+        session = { session: sessionId, signature };
+      } else if (this.loginSession) {
+        session = this.loginSession;
+      } else {
+        logger.info('[AUTH] Logging in to TradingView as %s', username);
+        // The vendor sends the credentials as a form body without encoding them
+        const user = await withTimeout<any>(
+          TradingViewAPI.loginUser(encodeURIComponent(username), encodeURIComponent(password), true),
+          'TradingView login timed out'
+        );
+        session = { session: user.session, signature: user.signature };
+        this.loginSession = session;
+      }
+      const user = await withTimeout<any>(
+        TradingViewAPI.getUser(session.session, session.signature, location),
+        'TradingView session check timed out'
+      );
+      this.credentials = session;
+      // `plan` is added by a local patch of the vendor (see tradingview_vendor/PATCHES.md)
+      if (user.plan === undefined) {
+        logger.warn('[AUTH] The TradingView library does not report the account plan, was tradingview_vendor/PATCHES.md re-applied?');
+      }
+      const plan = typeof user.plan === 'string' ? user.plan : null;
+      this.auth = { ...this.auth, authenticated: true, username: user.username || null, plan };
+      logger.info('[AUTH] Authenticated as %s (plan: %s)', user.username, plan === null ? 'unknown' : plan || 'free');
+    } catch (err) {
+      this.onAuthError((err as Error).message);
+    }
+  }
+
+  // Authentication failed: fall back to anonymous connections until the next connect
+  private onAuthError(message: string): void {
+    this.credentials = null;
+    this.loginSession = null;
+    this.auth = { ...this.auth, authenticated: false, error: message, checkedAt: new Date().toISOString() };
+    logger.error('[AUTH] TradingView authentication failed, connecting anonymously: %s', message);
+    this.emit('auth_failed', { method: this.auth.method, error: message });
+  }
+
+  // Get the state of the TradingView account
+  getAuthStatus(): AuthStatus {
+    return { ...this.auth };
+  }
+
+  // Create the vendor client of a pool connection
+  private openConnection(connection: PoolConnection): void {
+    const client = new TradingViewAPI.Client({
+      // Use proxy if specified in config
+      proxy: config.tvApi.proxy || undefined,
+      // Set connection timeout
+      timeout_ms: config.tvApi.timeoutMs,
+      // Session of the configured account, anonymous if not set
+      ...(this.credentials ? {
+        token: this.credentials.session,
+        signature: this.credentials.signature,
+        location: config.tvApi.auth.location,
+      } : {}),
+    });
+    if (!client) {
+      throw new Error('Could not initialize TradingView client');
+    }
+    client.onDisconnected(() => {
+      if (connection.client === client) this.onConnectionLost(connection);
+    });
+    client.onError((...err: any[]) => {
+      // The client never sends anything when its session is rejected: replace it with an anonymous one
+      if (String(err[0]).startsWith('Credentials error') && connection.client === client) {
+        if (this.credentials) this.onAuthError(err.slice(1).join(' ') || 'Credentials error');
+        this.onConnectionLost(connection);
+        client.end();
+        return;
+      }
+      logger.error('[POOL] Connection %d error: %o', connection.id, err);
+    });
+    connection.client = client;
+    connection.alive = true;
+    connection.closing = false;
+    connection.createdAt = Date.now();
+  }
+
+  // End every pool connection on purpose
+  private endConnections(): void {
+    for (const connection of this.connections) {
+      connection.closing = true;
+      connection.alive = false;
+      try {
+        connection.client?.end();
+      } catch (err) {
+        logger.error('Error disconnecting from TradingView: %s', (err as Error).message);
+      }
+    }
+    this.connections = [];
+    this.orphans.clear();
+  }
+
+  /**
+   * A pool connection went down: its charts move to the remaining connections and
+   * the connection is replaced after reconnectDelay. Missed closed bars are backfilled.
+   */
+  private onConnectionLost(connection: PoolConnection): void {
+    if (connection.closing || !connection.alive) return;
+    connection.alive = false;
+    connection.losses++;
+    wsErrorsTotal.inc();
+    const keys = Array.from(connection.charts);
+    logger.error('[POOL] Connection %d lost with %d charts, moving them to the other connections', connection.id, keys.length);
+    this.emit('connection_lost', { id: connection.id, subscriptions: keys });
+
+    // Replay sessions do not survive their connection
+    for (const [id, session] of Array.from(this.replays.entries())) {
+      if (session.connection === connection) this.stopReplay(id, 'disconnected');
+    }
+    if (this.quoteConnection === connection) {
+      this.moveQuotes();
+    }
+    this.rebalance(keys).catch(err => logger.error('[POOL] Rebalancing failed: %s', (err as Error).message));
+
+    setTimeout(() => this.replaceConnection(connection), this.reconnectDelay);
+  }
+
+  // Re-create the charts of a lost connection on the connections still alive
+  private async rebalance(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      const subscription = this.subscriptions.get(key);
+      if (!subscription) continue;
+      await this.unsubscribe(subscription.symbol, subscription.timeframe, subscription.options, 'recovery');
+      if (!this.connected) return;
+      if (!await this.subscribe(subscription, 'rebalance')) {
+        logger.warn('[POOL] No room for %s, waiting for the lost connection to be replaced', key);
+        this.orphans.set(key, subscription);
+      }
+    }
+  }
+
+  // Open a new client for a lost connection and place the charts waiting for room
+  private async replaceConnection(connection: PoolConnection): Promise<void> {
+    if (!this.connected || !this.connections.includes(connection)) return;
+    try {
+      this.openConnection(connection);
+    } catch (err) {
+      logger.error('[POOL] Failed to replace connection %d: %s', connection.id, (err as Error).message);
+      setTimeout(() => this.replaceConnection(connection), this.reconnectDelay);
+      return;
+    }
+    wsConnectsTotal.inc();
+    logger.info('[POOL] Connection %d replaced', connection.id);
+    const orphans = Array.from(this.orphans.entries());
+    this.orphans.clear();
+    for (const [key, subscription] of orphans) {
+      if (this.subscriptions.has(key)) continue;
+      if (!await this.subscribe(subscription, 'rebalance')) this.orphans.set(key, subscription);
+    }
+  }
+
+  // Re-create the quote session on another connection
+  private moveQuotes(): void {
+    const symbols = Array.from(this.quoteMarkets.keys());
+    this.quoteMarkets.clear();
+    this.closeQuoteSession();
+    for (const symbol of symbols) {
+      try {
+        this.subscribeQuote(symbol);
+      } catch (err) {
+        logger.error('[POOL] Failed to move quotes of %s: %s', symbol, (err as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Connection for a new chart: the live connection with the fewest charts,
+   * below the per-connection cap unless `ignoreCap` (temporary charts)
+   */
+  private pickConnection(ignoreCap: boolean = false): PoolConnection | null {
+    const cap = config.tvApi.maxChartsPerConnection;
+    let best: PoolConnection | null = null;
+    for (const connection of this.connections) {
+      if (!connection.alive) continue;
+      if (!ignoreCap && cap > 0 && connection.charts.size >= cap) continue;
+      if (!best || connection.charts.size < best.charts.size) best = connection;
+    }
+    return best;
+  }
+
+  // Connection of a temporary chart (history, replay) or the quote session, throws if none is alive
+  private requireClient(): PoolConnection {
+    const connection = this.connected ? this.pickConnection(true) : null;
+    if (!connection) throw new Error('TradingView client not connected');
+    return connection;
+  }
+
+  // Get the state of every pool connection
+  getConnectionStatus(): ConnectionStatus[] {
+    return this.connections.map(c => ({
+      id: c.id,
+      connected: c.alive,
+      charts: c.charts.size,
+      subscriptions: Array.from(c.charts),
+      quotes: this.quoteConnection === c,
+      createdAt: new Date(c.createdAt).toISOString(),
+      losses: c.losses,
+    }));
+  }
+
   private scheduleReconnect() {
     // Prevent multiple reconnect attempts
     if (this.reconnectTimeout) {
@@ -96,38 +524,57 @@ export class TradingViewClient extends EventEmitter {
 
   // Subscribe to symbol/timeframe
   async subscribe(subscription: Subscription, reason: string = 'explicit'): Promise<boolean> {
+    // Charts are keyed by the TradingView name of the timeframe, '1h' and '60' are one chart
+    subscription = { ...subscription, timeframe: normalizeTimeframe(subscription.timeframe) };
     logger.info(`[DIAG] subscribe() called for %s/%s (%s). Current charts: %o`, subscription.symbol, subscription.timeframe, reason, Array.from(this.charts.keys()));
-    if (!this.connected || !this.client) {
+    if (!this.connected || this.connections.length === 0) {
       logger.error('Cannot subscribe, client not connected');
       throw new Error('TradingView client not connected');
     }
 
-    const { symbol, timeframe } = subscription;
-    const key = `${symbol}_${timeframe}`;
+    const { symbol, timeframe, options } = subscription;
+    const key = subscriptionKey(subscription);
 
-    // If already subscribed, do nothing
+    // If already subscribed, only update the emission policy
     if (this.charts.has(key)) {
       logger.info(`[DIAG] Already subscribed to %s/%s (%s). Charts: %o`, symbol, timeframe, reason, Array.from(this.charts.keys()));
+      if (subscription.emit) this.setEmitPolicy(key, subscription.emit);
       return true;
     }
 
     try {
       logger.info(`[DIAG] Subscribing to %s/%s (%s)`, symbol, timeframe, reason);
+      const connection = this.pickConnection();
+      if (!connection) {
+        throw new Error(`All ${this.connections.length} TradingView connections are down or full`);
+      }
       
-      // Create separate chart for symbol/timeframe
-      const chart = new this.client.Session.Chart();
+      // Create separate chart for symbol/timeframe, on the least loaded connection
+      const chart = new connection.client.Session.Chart();
+
+      // Bars delivered before the previous chart went away: the gap is filled before live updates resume
+      let backfill = config.backfill.maxBars > 0 ? this.lastDelivered.get(key) : undefined;
+      let backfillFetches = 0;
+      let backfillOldest: number | undefined;
       
       // Handle errors
       chart.onError((...err: any[]) => {
         logger.error('Chart error for %s/%s: %o', symbol, timeframe, err);
-        this.emit('chart_error', { symbol, timeframe, error: err });
+        // Callbacks of a chart replaced in the meantime no longer describe the subscription
+        if (this.charts.get(key) !== chart) return;
+        // Symbol errors start with the internal id of the symbol request, e.g. "(sds_sym_1) Symbol error: invalid symbol"
+        const message = err.map(e => String(e)).join(' ').replace(/^\([^)]*\)\s*/, '');
+        this.chartStates.set(key, { status: 'error', error: message });
+        this.emit('chart_error', { symbol, timeframe, options, key, error: err, message });
         logger.error(`[DIAG] Chart error for %s/%s after %s: %o`, symbol, timeframe, reason, err);
       });
       
       // When symbol is loaded
       chart.onSymbolLoaded(() => {
         logger.info('Symbol loaded for %s/%s: %s', symbol, timeframe, chart.infos?.description || 'Unknown');
-        this.emit('symbol_loaded', { symbol, timeframe, description: chart.infos?.description });
+        if (this.charts.get(key) !== chart) return;
+        this.chartStates.set(key, { status: 'loaded', error: null });
+        this.emit('symbol_loaded', { symbol, timeframe, options, key, description: chart.infos?.description });
       });
       
       // Handle data updates
@@ -136,19 +583,39 @@ export class TradingViewClient extends EventEmitter {
         
         // Get last bar
         const lastBar = chart.periods[0];
+
+        if (backfill) {
+          const periods: any[] = chart.periods;
+          const oldest = periods[periods.length - 1].time;
+          const covered = oldest <= backfill.time || periods.length > config.backfill.maxBars;
+          // Load older periods until the gap is covered, giving up when TradingView has no more
+          if (!covered && backfillFetches < MAX_HISTORY_FETCH_MORE && oldest !== backfillOldest) {
+            backfillFetches++;
+            backfillOldest = oldest;
+            chart.fetchMore(config.backfill.maxBars + 1 - periods.length);
+            return;
+          }
+          this.emitBackfill(key, symbol, timeframe, periods, backfill, options);
+          backfill = undefined;
+        }
         
         if (lastBar) {
+          // A new period started: emit the final values of the previous candle
+          const previous = this.lastBars.get(key);
+          if (previous && lastBar.time > previous.time) {
+            const finalPeriod = chart.periods.find((p: any) => p.time === previous.time);
+            const closedBar = finalPeriod
+              ? this.periodToBar(symbol, timeframe, finalPeriod, true, options)
+              : { ...previous, isClosed: true };
+            logger.debug('Bar closed: %o', closedBar);
+            this.dropPending(key);
+            this.lastDelivered.set(key, { time: closedBar.time, isClosed: true });
+            this.emit('bar_closed', closedBar);
+          }
+
           // Prepare bar for push
-          const bar: Bar = {
-            symbol,
-            timeframe,
-            time: lastBar.time,
-            open: lastBar.open,
-            high: lastBar.max || lastBar.high, // Support for different data formats
-            low: lastBar.min || lastBar.low,   // Support for different data formats
-            close: lastBar.close,
-            volume: lastBar.volume || 0,
-          };
+          const bar = this.periodToBar(symbol, timeframe, lastBar, false, options);
+          this.lastBars.set(key, bar);
           
           logger.debug('Got bar: %o', bar);
           
@@ -160,21 +627,35 @@ export class TradingViewClient extends EventEmitter {
             );
           }
           
-          // Emit bar to listeners
-          this.emit('bar', bar);
+          // Every update proves the chart is alive, even when the emission policy holds it back
+          this.emit('update', bar);
+          this.emitLive(key, bar);
         }
       });
       
       // Set market
       chart.setMarket(symbol, {
-        timeframe
+        timeframe,
+        ...options,
       });
       
-      // Save chart for this subscription
+      // Save chart for this subscription, candle tracking starts over with the new chart
       this.charts.set(key, chart);
+      this.chartStates.set(key, { status: 'loading', error: null });
+      connection.charts.add(key);
+      this.orphans.delete(key);
+      this.subscriptions.set(key, {
+        symbol,
+        timeframe,
+        ...(options ? { options } : {}),
+        ...(subscription.emit ? { emit: subscription.emit } : {}),
+      });
+      this.lastBars.delete(key);
+      this.clearEmitState(key);
+      this.attachStudies(key, chart);
       logger.info('[DIAG] charts after subscribe: %o', Array.from(this.charts.keys()));
       subscriptionsGauge.set(this.charts.size);
-      logger.info(`[DIAG] Subscribed to %s/%s (%s). Charts now: %o`, symbol, timeframe, reason, Array.from(this.charts.keys()));
+      logger.info(`[DIAG] Subscribed to %s/%s (%s) on connection %d. Charts now: %o`, symbol, timeframe, reason, connection.id, Array.from(this.charts.keys()));
       this.emit('subscribed', subscription);
       
       return true;
@@ -186,10 +667,230 @@ export class TradingViewClient extends EventEmitter {
     }
   }
 
-  // Unsubscribe from symbol/timeframe
-  async unsubscribe(symbol: string, timeframe: string): Promise<boolean> {
-    const key = `${symbol}_${timeframe}`;
-    logger.info(`[DIAG] unsubscribe() called for %s/%s. Current charts: %o`, symbol, timeframe, Array.from(this.charts.keys()));
+  /**
+   * Emit a live update according to the emission policy of the subscription
+   */
+  private emitLive(key: string, bar: Bar): void {
+    const policy = this.getEmitPolicy(key);
+    if (policy.mode === 'close') {
+      barUpdatesSuppressedTotal.inc({ reason: 'close_only' });
+      return;
+    }
+    let state = this.emitStates.get(key);
+    if (!state) {
+      state = { emitted: null, pending: null, lastEmitAt: 0, timer: null };
+      this.emitStates.set(key, state);
+    }
+    if (policy.mode === 'changes' && sameBar(state.pending || state.emitted, bar)) {
+      barUpdatesSuppressedTotal.inc({ reason: 'unchanged' });
+      return;
+    }
+    const wait = state.lastEmitAt + policy.throttleMs - Date.now();
+    if (policy.throttleMs > 0 && wait > 0) {
+      // Only the latest update of the window is kept
+      if (state.pending) barUpdatesSuppressedTotal.inc({ reason: 'throttled' });
+      state.pending = bar;
+      if (!state.timer) {
+        state.timer = setTimeout(() => {
+          const pending = state!.pending;
+          state!.timer = null;
+          if (pending) this.deliverLive(key, state!, pending);
+        }, wait);
+      }
+      return;
+    }
+    this.deliverLive(key, state, bar);
+  }
+
+  private deliverLive(key: string, state: EmitState, bar: Bar): void {
+    state.emitted = bar;
+    state.pending = null;
+    state.lastEmitAt = Date.now();
+    const delivered = this.lastDelivered.get(key);
+    if (!delivered || bar.time > delivered.time) {
+      this.lastDelivered.set(key, { time: bar.time, isClosed: false });
+    }
+    this.emit('bar', bar);
+  }
+
+  // The closed bar carries the final values, a held back update of its period is dropped
+  private dropPending(key: string): void {
+    const state = this.emitStates.get(key);
+    if (!state?.pending) return;
+    barUpdatesSuppressedTotal.inc({ reason: 'throttled' });
+    state.pending = null;
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+  }
+
+  // Forget the emission state of one subscription, or of all
+  private clearEmitState(key?: string): void {
+    for (const [k, state] of this.emitStates.entries()) {
+      if (key !== undefined && k !== key) continue;
+      if (state.timer) clearTimeout(state.timer);
+      this.emitStates.delete(k);
+    }
+  }
+
+  // Emission policy of a subscription: its own fields over the global policy
+  getEmitPolicy(key: string): EmitPolicy {
+    return { ...config.emit, ...this.subscriptions.get(key)?.emit };
+  }
+
+  /**
+   * Change the emission policy of an active subscription
+   */
+  setEmitPolicy(key: string, emit: Partial<EmitPolicy>): boolean {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) return false;
+    subscription.emit = { ...subscription.emit, ...emit };
+    logger.info('[DIAG] Emission policy of %s: %o', key, this.getEmitPolicy(key));
+    return true;
+  }
+
+  /**
+   * Emit, oldest first, the closed bars of a re-created chart that were not delivered
+   * before the previous chart went away (at most `backfill.maxBars`)
+   */
+  private emitBackfill(key: string, symbol: string, timeframe: string, periods: any[], last: DeliveredBar, options?: ChartOptions): void {
+    // periods[0] is still forming, it is delivered as a live update
+    const missed = periods
+      .slice(1)
+      .filter(p => p.time > last.time || (p.time === last.time && !last.isClosed))
+      .slice(0, config.backfill.maxBars)
+      .reverse();
+    if (missed.length === 0) return;
+
+    if (periods[periods.length - 1].time > last.time) {
+      logger.warn('[BACKFILL] %s/%s: gap since %s is larger than the loaded history, older bars are lost',
+        symbol, timeframe, new Date(last.time * 1000).toISOString());
+    }
+    logger.info('[BACKFILL] Emitting %d missed bars for %s/%s since %s', missed.length, symbol, timeframe, new Date(last.time * 1000).toISOString());
+    for (const period of missed) {
+      const bar = this.periodToBar(symbol, timeframe, period, true, options);
+      bar.backfilled = true;
+      this.lastDelivered.set(key, { time: bar.time, isClosed: true });
+      this.emit('bar_closed', bar);
+    }
+  }
+
+  // Convert a vendor price period to a Bar
+  private periodToBar(symbol: string, timeframe: string, period: any, isClosed: boolean = false, options?: ChartOptions): Bar {
+    const bar: Bar = {
+      symbol,
+      timeframe,
+      time: period.time,
+      open: period.open,
+      high: period.max || period.high, // Support for different data formats
+      low: period.min || period.low,   // Support for different data formats
+      close: period.close,
+      volume: period.volume || 0,
+      isClosed,
+    };
+    if (options) bar.options = options;
+    return bar;
+  }
+
+  /**
+   * Fetch historical bars for symbol/timeframe using a temporary chart session.
+   * Bars are returned in ascending time order; at most `range` bars ending at `to`.
+   */
+  async getHistory(symbol: string, timeframe: string, options: HistoryOptions = {}): Promise<Bar[]> {
+    timeframe = normalizeTimeframe(timeframe);
+    const connection = this.requireClient();
+
+    const range = Math.min(Math.max(Math.floor(options.range || 100), 1), MAX_HISTORY_RANGE);
+    const to = options.to;
+    logger.info('Fetching history for %s/%s (range: %d, to: %s)', symbol, timeframe, range, to ?? 'now');
+
+    const chart = new connection.client.Session.Chart();
+
+    return new Promise<Bar[]>((resolve, reject) => {
+      let fetchMoreCalls = 0;
+      let settled = false;
+      let timer: NodeJS.Timeout | null = null;
+
+      const collect = (): Bar[] => {
+        const periods: any[] = chart.periods || [];
+        // Only the most recent period of the series can still be forming
+        const formingTime = periods.length > 0 ? periods[0].time : undefined;
+        return periods
+          .filter(p => to === undefined || p.time <= to)
+          .slice(0, range)
+          .reverse()
+          .map(p => this.periodToBar(symbol, timeframe, p, p.time !== formingTime, options.chartOptions));
+      };
+
+      const finish = (err?: Error) => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        const bars = collect();
+        try {
+          chart.delete();
+        } catch (deleteErr) {
+          logger.warn('Error deleting history chart for %s/%s: %s', symbol, timeframe, (deleteErr as Error).message);
+        }
+        // A timeout after some data arrived is not an error: the series is simply shorter than requested
+        if (err && bars.length === 0) {
+          reject(err);
+          return;
+        }
+        logger.info('Fetched %d history bars for %s/%s', bars.length, symbol, timeframe);
+        resolve(bars);
+      };
+
+      const armTimeout = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(
+          () => finish(new Error(`Timed out fetching history for ${symbol}/${timeframe}`)),
+          config.tvApi.timeoutMs
+        );
+      };
+
+      chart.onError((...err: any[]) => {
+        logger.error('History chart error for %s/%s: %o', symbol, timeframe, err);
+        finish(new Error(err.map(e => String(e)).join(' ')));
+      });
+
+      chart.onUpdate((changes: string[]) => {
+        if (settled || !changes.includes('$prices')) return;
+        const available = collect().length;
+        if (available >= range || fetchMoreCalls >= MAX_HISTORY_FETCH_MORE) {
+          finish();
+          return;
+        }
+        // Not enough bars yet, ask TradingView for older periods
+        fetchMoreCalls++;
+        chart.fetchMore(range - available);
+        armTimeout();
+      });
+
+      armTimeout();
+      chart.setMarket(symbol, {
+        timeframe,
+        range,
+        to,
+        ...options.chartOptions,
+      });
+    });
+  }
+
+  /**
+   * Unsubscribe from symbol/timeframe (with the given chart options).
+   * With a resubscribe reason ('recovery') the last delivered bar is remembered
+   * so that bars missed until the next subscribe are backfilled.
+   */
+  async unsubscribe(symbol: string, timeframe: string, options?: ChartOptions, reason: string = 'explicit'): Promise<boolean> {
+    timeframe = normalizeTimeframe(timeframe);
+    const key = subscriptionKey({ symbol, timeframe, options });
+    logger.info(`[DIAG] unsubscribe() called for %s/%s (%s). Current charts: %o`, symbol, timeframe, reason, Array.from(this.charts.keys()));
+    if (!RESUBSCRIBE_REASONS.includes(reason)) {
+      this.lastDelivered.delete(key);
+    }
+    this.orphans.delete(key);
     const chart = this.charts.get(key);
 
     if (!chart) {
@@ -206,13 +907,19 @@ export class TradingViewClient extends EventEmitter {
         logger.warn('Chart.delete() not a function for %s/%s', symbol, timeframe);
       }
       this.charts.delete(key);
+      this.chartStates.delete(key);
+      for (const connection of this.connections) connection.charts.delete(key);
+      this.subscriptions.delete(key);
+      this.lastBars.delete(key);
+      this.clearEmitState(key);
+      this.detachStudies(key);
       logger.info('[DIAG] charts after unsubscribe: %o', Array.from(this.charts.keys()));
       subscriptionsGauge.set(this.charts.size);
       logger.info('Unsubscribed from %s/%s, %d subscriptions remain. Charts now: %o', symbol, timeframe, this.charts.size, Array.from(this.charts.keys()));
       if (this.charts.size === 0) {
         logger.info('All TradingView subscriptions removed, TradingView client is now idle');
       }
-      this.emit('unsubscribed', { symbol, timeframe });
+      this.emit('unsubscribed', options ? { symbol, timeframe, options } : { symbol, timeframe });
       return true;
     } catch (err) {
       logger.error('Error unsubscribing from %s/%s: %s', symbol, timeframe, (err as Error).message);
@@ -220,28 +927,522 @@ export class TradingViewClient extends EventEmitter {
     }
   }
 
+  /**
+   * Start a replay session on a dedicated chart. The session starts paused at `from`;
+   * its bars are emitted as 'replay_bar' (tagged with replayId), never as 'bar'.
+   */
+  async startReplay(symbol: string, timeframe: string, options: ReplayOptions): Promise<ReplayInfo> {
+    timeframe = normalizeTimeframe(timeframe);
+    const connection = this.requireClient();
+    if (this.replays.size + this.startingReplays >= config.replay.maxSessions) {
+      throw new Error(`Replay session limit of ${config.replay.maxSessions} reached`);
+    }
+
+    const id = `replay_${Date.now().toString(36)}_${++this.replayCounter}`;
+    const chart = new connection.client.Session.Chart();
+    const session: ReplaySession = {
+      info: { id, symbol, timeframe, from: options.from, intervalMs: options.intervalMs || 1000, state: 'paused' },
+      chart,
+      connection,
+      options: options.chartOptions,
+      lastBar: null,
+    };
+    logger.info('[REPLAY] Starting replay %s for %s/%s from %s', id, symbol, timeframe, new Date(options.from * 1000).toISOString());
+
+    this.startingReplays++;
+    try {
+      await this.loadReplay(session, options);
+    } finally {
+      this.startingReplays--;
+    }
+
+    logger.info('[REPLAY] Replay %s loaded, %d replay sessions', id, this.replays.size);
+    return { ...session.info };
+  }
+
+  // Load the chart of a replay session, which is registered once TradingView loaded it
+  private loadReplay(session: ReplaySession, options: ReplayOptions): Promise<void> {
+    const { chart } = session;
+    const { id, symbol, timeframe } = session.info;
+    return new Promise<void>((resolve, reject) => {
+      let loaded = false;
+      const timer = setTimeout(() => {
+        if (loaded) return;
+        loaded = true;
+        chart.delete();
+        reject(new Error(`Timed out starting replay for ${symbol}/${timeframe}`));
+      }, config.tvApi.timeoutMs);
+
+      chart.onError((...err: any[]) => {
+        logger.error('[REPLAY] Chart error for %s: %o', id, err);
+        if (!loaded) {
+          loaded = true;
+          clearTimeout(timer);
+          chart.delete();
+          reject(new Error(err.map(e => String(e)).join(' ')));
+          return;
+        }
+        this.emit('replay_error', { ...session.info, error: err });
+      });
+      chart.onReplayLoaded(() => {
+        if (loaded) return;
+        loaded = true;
+        clearTimeout(timer);
+        this.replays.set(id, session);
+        resolve();
+      });
+      chart.onReplayPoint((time: number) => {
+        session.info.time = time;
+      });
+      chart.onReplayEnd(() => {
+        if (!this.replays.has(id)) return;
+        session.info.state = 'ended';
+        logger.info('[REPLAY] Replay %s reached the end of data', id);
+        this.emit('replay_end', { ...session.info });
+      });
+      chart.onUpdate(() => this.onReplayUpdate(session));
+
+      chart.setMarket(symbol, {
+        timeframe,
+        replay: options.from,
+        ...options.chartOptions,
+      });
+    });
+  }
+
+  // Play a replay session automatically, optionally changing its speed
+  async playReplay(id: string, intervalMs?: number): Promise<ReplayInfo> {
+    const session = this.getReplaySession(id);
+    if (intervalMs) session.info.intervalMs = intervalMs;
+    await withTimeout(session.chart.replayStart(session.info.intervalMs), `Timed out starting playback of ${id}`);
+    session.info.state = 'playing';
+    return { ...session.info };
+  }
+
+  // Pause an automatically playing replay session
+  async pauseReplay(id: string): Promise<ReplayInfo> {
+    const session = this.getReplaySession(id);
+    if (session.info.state === 'playing') {
+      await withTimeout(session.chart.replayStop(), `Timed out pausing ${id}`);
+      session.info.state = 'paused';
+    }
+    return { ...session.info };
+  }
+
+  // Move a paused replay session forward by `count` bars
+  async stepReplay(id: string, count: number = 1): Promise<ReplayInfo> {
+    const session = this.getReplaySession(id);
+    if (session.info.state === 'playing') {
+      throw new Error('Pause the replay before stepping');
+    }
+    await withTimeout(session.chart.replayStep(count), `Timed out stepping ${id}`);
+    return { ...session.info };
+  }
+
+  // Stop a replay session and delete its chart
+  stopReplay(id: string, reason: string = 'explicit'): ReplayInfo | null {
+    const session = this.replays.get(id);
+    if (!session) return null;
+    this.replays.delete(id);
+    session.info.state = 'stopped';
+    try {
+      session.chart.delete();
+    } catch (err) {
+      logger.error('[REPLAY] Error deleting replay chart %s: %s', id, (err as Error).message);
+    }
+    logger.info('[REPLAY] Replay %s stopped (%s), %d replay sessions remain', id, reason, this.replays.size);
+    this.emit('replay_stopped', { ...session.info, reason });
+    return { ...session.info };
+  }
+
+  // Get state of a replay session
+  getReplay(id: string): ReplayInfo | null {
+    const session = this.replays.get(id);
+    return session ? { ...session.info } : null;
+  }
+
+  private getReplaySession(id: string): ReplaySession {
+    const session = this.replays.get(id);
+    if (!session) throw new Error(`Replay session not found: ${id}`);
+    return session;
+  }
+
+  // Emit replayed bars, tagged so they can be told apart from live data
+  private onReplayUpdate(session: ReplaySession): void {
+    const { chart, info } = session;
+    if (!this.replays.has(info.id) || !chart.periods || !chart.periods[0]) return;
+    const latest = chart.periods[0];
+
+    const previous = session.lastBar;
+    if (previous && latest.time > previous.time) {
+      const finalPeriod = chart.periods.find((p: any) => p.time === previous.time);
+      const closedBar = finalPeriod
+        ? { ...this.periodToBar(info.symbol, info.timeframe, finalPeriod, true, session.options), replayId: info.id }
+        : { ...previous, isClosed: true };
+      this.emit('replay_bar', closedBar);
+    }
+
+    const bar: Bar = { ...this.periodToBar(info.symbol, info.timeframe, latest, false, session.options), replayId: info.id };
+    session.lastBar = bar;
+    this.emit('replay_bar', bar);
+  }
+
+  // Check if there is an active chart for symbol/timeframe (with the given chart options)
+  hasSubscription(symbol: string, timeframe: string, options?: ChartOptions): boolean {
+    return this.charts.has(subscriptionKey({ symbol, timeframe: normalizeTimeframe(timeframe), options }));
+  }
+
+  /**
+   * Wait until TradingView resolved the symbol of a chart. Rejects with TradingView's error
+   * text if the chart failed, or when it is still loading after timeoutMs.
+   */
+  waitForChart(subscription: { symbol: string; timeframe: string; options?: ChartOptions }, timeoutMs: number = config.tvApi.timeoutMs): Promise<void> {
+    const { symbol, options } = subscription;
+    const timeframe = normalizeTimeframe(subscription.timeframe);
+    const key = subscriptionKey({ symbol, timeframe, options });
+    const state = this.chartStates.get(key);
+    if (!state) return Promise.reject(new Error(`No TradingView chart for ${symbol}/${timeframe}`));
+    if (state.status === 'loaded') return Promise.resolve();
+    if (state.status === 'error') return Promise.reject(new Error(state.error || 'Chart error'));
+
+    return new Promise<void>((resolve, reject) => {
+      const onLoaded = (event: { key: string }) => {
+        if (event.key !== key) return;
+        cleanup();
+        resolve();
+      };
+      const onError = (event: { key: string; message: string }) => {
+        if (event.key !== key) return;
+        cleanup();
+        reject(new Error(event.message));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`TradingView did not load ${symbol}/${timeframe} within ${timeoutMs}ms`));
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('symbol_loaded', onLoaded);
+        this.off('chart_error', onError);
+      };
+      this.on('symbol_loaded', onLoaded);
+      this.on('chart_error', onError);
+    });
+  }
+
+  // Get the load state of the chart for symbol/timeframe, null if there is no such chart
+  getChartState(symbol: string, timeframe: string, options?: ChartOptions): ChartState | null {
+    const state = this.chartStates.get(subscriptionKey({ symbol, timeframe: normalizeTimeframe(timeframe), options }));
+    return state ? { ...state } : null;
+  }
+
+  // Get the latest bar received for symbol/timeframe (possibly still in progress), null if none yet
+  getLastBar(symbol: string, timeframe: string, options?: ChartOptions): Bar | null {
+    return this.lastBars.get(subscriptionKey({ symbol, timeframe: normalizeTimeframe(timeframe), options })) || null;
+  }
+
+  // Get the bars currently loaded in the chart for symbol/timeframe, oldest first
+  getRecentBars(symbol: string, timeframe: string, options?: ChartOptions): Bar[] {
+    timeframe = normalizeTimeframe(timeframe);
+    const chart = this.charts.get(subscriptionKey({ symbol, timeframe, options }));
+    const periods: any[] = chart?.periods || [];
+    return periods
+      .map((p, i) => this.periodToBar(symbol, timeframe, p, i > 0, options))
+      .reverse();
+  }
+
+  /**
+   * Add an indicator study to the symbol/timeframe chart. The chart must exist;
+   * the study is removed with the chart and re-attached whenever the chart is re-created.
+   */
+  async subscribeIndicator(subscription: IndicatorSubscription): Promise<boolean> {
+    subscription = { ...subscription, timeframe: normalizeTimeframe(subscription.timeframe) };
+    const id = indicatorId(subscription);
+    if (this.indicators.has(id)) {
+      logger.info('Already subscribed to indicator %s', id);
+      return true;
+    }
+    if (!this.hasSubscription(subscription.symbol, subscription.timeframe)) {
+      throw new Error(`No chart for ${subscription.symbol}/${subscription.timeframe}`);
+    }
+
+    let instance: any;
+    try {
+      instance = await this.resolveIndicator(subscription);
+    } catch (err) {
+      logger.error('Failed to load indicator %s: %s', id, (err as Error).message);
+      this.emit('indicator_error', { subscription, id, error: err });
+      return false;
+    }
+    if (this.indicators.has(id)) return true; // Subscribed concurrently while loading
+
+    const entry: IndicatorStudy = { subscription, instance, study: null, lastValue: null };
+    this.indicators.set(id, entry);
+    const chart = this.charts.get(this.studyChartKey(entry));
+    if (chart) this.attachStudy(id, entry, chart);
+    logger.info('Subscribed to indicator %s, %d indicator subscriptions', id, this.indicators.size);
+    this.emit('indicator_subscribed', { ...subscription, id });
+    return true;
+  }
+
+  // Remove an indicator study, the chart itself is left as is
+  unsubscribeIndicator(id: string): boolean {
+    const entry = this.indicators.get(id);
+    if (!entry) {
+      logger.warn('Cannot unsubscribe, indicator not found: %s', id);
+      return false;
+    }
+    this.indicators.delete(id);
+    try {
+      entry.study?.remove();
+    } catch (err) {
+      logger.error('Error removing indicator study %s: %s', id, (err as Error).message);
+    }
+    logger.info('Unsubscribed from indicator %s, %d indicator subscriptions remain', id, this.indicators.size);
+    this.emit('indicator_unsubscribed', { ...entry.subscription, id });
+    return true;
+  }
+
+  // Check if indicators are attached to the symbol/timeframe chart
+  hasIndicators(symbol: string, timeframe: string): boolean {
+    timeframe = normalizeTimeframe(timeframe);
+    return Array.from(this.indicators.values())
+      .some(e => e.subscription.symbol === symbol && e.subscription.timeframe === timeframe);
+  }
+
+  // Get list of indicator subscriptions
+  getIndicatorSubscriptions(): (IndicatorSubscription & { id: string })[] {
+    return Array.from(this.indicators.entries()).map(([id, e]) => ({ ...e.subscription, id }));
+  }
+
+  // Build the vendor indicator instance with the requested inputs
+  private async resolveIndicator(subscription: IndicatorSubscription): Promise<any> {
+    const inputs = subscription.inputs || {};
+    if (subscription.indicator.includes('@')) {
+      const builtIn = new TradingViewAPI.BuiltInIndicator(subscription.indicator);
+      for (const [key, value] of Object.entries(inputs)) builtIn.setOption(key, value);
+      return builtIn;
+    }
+    // Private and invite-only scripts need the session of the account
+    const pine = await TradingViewAPI.getIndicator(
+      subscription.indicator,
+      subscription.version || 'last',
+      this.credentials?.session || '',
+      this.credentials?.signature || ''
+    );
+    for (const [key, value] of Object.entries(inputs)) pine.setOption(key, value);
+    return pine;
+  }
+
+  // Create the vendor study of an indicator on a chart
+  private attachStudy(id: string, entry: IndicatorStudy, chart: any): void {
+    const { symbol, timeframe, indicator } = entry.subscription;
+    try {
+      const study = new chart.Study(entry.instance);
+      study.onError((...err: any[]) => {
+        logger.error('Indicator error for %s: %o', id, err);
+        this.emit('indicator_error', { subscription: entry.subscription, id, error: err });
+      });
+      study.onUpdate((changes: string[]) => {
+        if (!changes.includes('plots') || !study.periods[0]) return;
+        const latest = study.periods[0];
+
+        // A new period started: emit the final values of the previous one
+        const previous = entry.lastValue;
+        if (previous && latest.$time > previous.time) {
+          const finalPeriod = study.periods.find((p: any) => p.$time === previous.time);
+          const closed = finalPeriod
+            ? this.periodToIndicatorValue(id, entry.subscription, finalPeriod, true)
+            : { ...previous, isClosed: true };
+          this.emit('indicator_closed', closed);
+        }
+
+        const value = this.periodToIndicatorValue(id, entry.subscription, latest, false);
+        entry.lastValue = value;
+        logger.debug('Got indicator value: %o', value);
+        this.emit('indicator', value);
+      });
+      entry.study = study;
+      entry.lastValue = null;
+      logger.info('Indicator %s attached to %s/%s chart', indicator, symbol, timeframe);
+    } catch (err) {
+      logger.error('Failed to attach indicator %s: %s', id, (err as Error).message);
+      this.emit('indicator_error', { subscription: entry.subscription, id, error: err });
+    }
+  }
+
+  // Indicators are drawn on the regular chart of their symbol/timeframe
+  private studyChartKey(entry: IndicatorStudy): string {
+    return subscriptionKey({ symbol: entry.subscription.symbol, timeframe: entry.subscription.timeframe });
+  }
+
+  // Re-attach the indicators of a newly created chart
+  private attachStudies(key: string, chart: any): void {
+    for (const [id, entry] of this.indicators.entries()) {
+      if (this.studyChartKey(entry) === key) {
+        this.attachStudy(id, entry, chart);
+      }
+    }
+  }
+
+  // Forget the studies of deleted charts (all charts if no key is given)
+  private detachStudies(key?: string): void {
+    for (const entry of this.indicators.values()) {
+      if (key && this.studyChartKey(entry) !== key) continue;
+      entry.study = null;
+      entry.lastValue = null;
+    }
+  }
+
+  // Convert a vendor study period to an IndicatorValue
+  private periodToIndicatorValue(id: string, subscription: IndicatorSubscription, period: any, isClosed: boolean): IndicatorValue {
+    const { $time, ...values } = period;
+    return {
+      id,
+      symbol: subscription.symbol,
+      timeframe: subscription.timeframe,
+      indicator: subscription.indicator,
+      time: $time,
+      values,
+      isClosed,
+    };
+  }
+
   // Get list of active subscriptions
   getSubscriptions(): Subscription[] {
-    return Array.from(this.charts.keys()).map(key => {
-      const [symbol, timeframe] = key.split('_');
-      return { symbol, timeframe };
+    return Array.from(this.subscriptions.values());
+  }
+
+  // Subscribe to real-time quotes of a symbol
+  subscribeQuote(symbol: string): boolean {
+    if (!this.connected || this.connections.length === 0) {
+      logger.error('Cannot subscribe to quotes, client not connected');
+      throw new Error('TradingView client not connected');
+    }
+    if (this.quoteMarkets.has(symbol)) {
+      return true;
+    }
+
+    try {
+      if (!this.quoteSession) {
+        const connection = this.requireClient();
+        this.quoteSession = new connection.client.Session.Quote({ customFields: config.quotes.fields });
+        this.quoteConnection = connection;
+        logger.info('Quote session created on connection %d with fields: %o', connection.id, config.quotes.fields);
+      }
+
+      const market = new this.quoteSession.Market(symbol);
+      market.onData((data: Record<string, any>) => {
+        const quote: Quote = { symbol, time: Date.now(), fields: { ...data } };
+        logger.debug('Got quote: %o', quote);
+        this.quotedSymbols.add(symbol);
+        this.emit('quote', quote);
+      });
+      // The market of a symbol TradingView cannot quote is dropped, the error tells its listeners
+      market.onError((...err: any[]) => {
+        logger.error('Quote error for %s: %o', symbol, err);
+        if (this.quoteMarkets.get(symbol) === market) this.unsubscribeQuote(symbol);
+        this.emit('quote_error', { symbol, error: err, message: err.map(e => String(e)).join(' ') });
+      });
+
+      this.quoteMarkets.set(symbol, market);
+      logger.info('Subscribed to quotes for %s, %d quote subscriptions', symbol, this.quoteMarkets.size);
+      this.emit('quote_subscribed', { symbol });
+      return true;
+    } catch (err) {
+      logger.error('Failed to subscribe to quotes for %s: %s', symbol, (err as Error).message);
+      return false;
+    }
+  }
+
+  // Unsubscribe from real-time quotes of a symbol
+  unsubscribeQuote(symbol: string): boolean {
+    const market = this.quoteMarkets.get(symbol);
+    if (!market) {
+      logger.warn('Cannot unsubscribe from quotes, subscription not found: %s', symbol);
+      return false;
+    }
+
+    try {
+      market.close();
+    } catch (err) {
+      logger.error('Error closing quote market %s: %s', symbol, (err as Error).message);
+    }
+    this.quoteMarkets.delete(symbol);
+    this.quotedSymbols.delete(symbol);
+    logger.info('Unsubscribed from quotes for %s, %d quote subscriptions remain', symbol, this.quoteMarkets.size);
+
+    // Drop the quote session once nothing uses it
+    if (this.quoteMarkets.size === 0) {
+      this.closeQuoteSession();
+    }
+    this.emit('quote_unsubscribed', { symbol });
+    return true;
+  }
+
+  /**
+   * Wait until TradingView resolved the quote market of a symbol: resolves with its first data
+   * (right away if it already got some), rejects on a quote error or after timeoutMs
+   */
+  waitForQuote(symbol: string, timeoutMs: number = config.tvApi.timeoutMs): Promise<void> {
+    if (!this.quoteMarkets.has(symbol)) return Promise.reject(new Error(`No quote subscription for ${symbol}`));
+    if (this.quotedSymbols.has(symbol)) return Promise.resolve();
+
+    return new Promise<void>((resolve, reject) => {
+      const onQuote = (quote: Quote) => {
+        if (quote.symbol !== symbol) return;
+        cleanup();
+        resolve();
+      };
+      const onError = (event: { symbol: string; message: string }) => {
+        if (event.symbol !== symbol) return;
+        cleanup();
+        reject(new Error(event.message || `Quote error for ${symbol}`));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error(`TradingView sent no quote for ${symbol} within ${timeoutMs}ms`));
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('quote', onQuote);
+        this.off('quote_error', onError);
+      };
+      this.on('quote', onQuote);
+      this.on('quote_error', onError);
     });
   }
 
+  // Get list of symbols with a quote subscription
+  getQuoteSubscriptions(): string[] {
+    return Array.from(this.quoteMarkets.keys());
+  }
+
+  private closeQuoteSession() {
+    if (!this.quoteSession) return;
+    try {
+      this.quoteSession.delete();
+    } catch (err) {
+      logger.error('Error deleting quote session: %s', (err as Error).message);
+    }
+    this.quoteSession = null;
+    this.quoteConnection = null;
+  }
+
   // Update subscriptions (subscribe to new and unsubscribe from removed)
   async updateSubscriptions(subscriptions: Subscription[], reason: string = 'explicit'): Promise<void> {
     const currentSubs = this.getSubscriptions();
-    const currentKeys = new Set(currentSubs.map(s => `${s.symbol}_${s.timeframe}`));
-    const newKeys = new Set(subscriptions.map(s => `${s.symbol}_${s.timeframe}`));
+    const currentKeys = new Set(currentSubs.map(subscriptionKey));
+    const newKeys = new Set(subscriptions.map(subscriptionKey));
     
     // Unsubscribe from those not in the new list
-    const toRemove = currentSubs.filter(s => !newKeys.has(`${s.symbol}_${s.timeframe}`));
+    const toRemove = currentSubs.filter(s => !newKeys.has(subscriptionKey(s)));
     for (const sub of toRemove) {
-      await this.unsubscribe(sub.symbol, sub.timeframe);
+      await this.unsubscribe(sub.symbol, sub.timeframe, sub.options);
     }
     
     // Subscribe to new ones
-    const toAdd = subscriptions.filter(s => !currentKeys.has(`${s.symbol}_${s.timeframe}`));
+    const toAdd = subscriptions.filter(s => !currentKeys.has(subscriptionKey(s)));
     let restored = 0;
     for (const sub of toAdd) {
       const ok = await this.subscribe(sub, reason);
@@ -273,17 +1474,26 @@ export class TradingViewClient extends EventEmitter {
     }
     
     this.charts.clear();
+    this.chartStates.clear();
+    for (const connection of this.connections) connection.charts.clear();
+    this.subscriptions.clear();
+    this.lastBars.clear();
+    this.clearEmitState();
+    this.detachStudies();
     subscriptionsGauge.set(0);
     
-    // Close connection
-    if (this.client && this.connected && typeof this.client.end === 'function') {
-      try {
-        this.client.end();
-      } catch (err) {
-        logger.error('Error disconnecting from TradingView: %s', (err as Error).message);
-      }
+    // Replay sessions do not survive the connection
+    for (const id of Array.from(this.replays.keys())) {
+      this.stopReplay(id, 'disconnected');
     }
     
+    // Close quote subscriptions
+    this.quoteMarkets.clear();
+    this.closeQuoteSession();
+    
+    // Close connections
+    this.endConnections();
+    
     this.connected = false;
     this.emit('disconnect');
     logger.info('TradingView client closed');
@@ -308,6 +1518,12 @@ export class TradingViewClient extends EventEmitter {
     }
     logger.info('[DIAG] charts before clear: %o', Array.from(this.charts.keys()));
     this.charts.clear();
+    this.chartStates.clear();
+    for (const connection of this.connections) connection.charts.clear();
+    this.subscriptions.clear();
+    this.lastBars.clear();
+    this.clearEmitState();
+    this.detachStudies();
     subscriptionsGauge.set(0);
     logger.info('[DIAG] All TradingView subscriptions fully reset. Charts now: %o', Array.from(this.charts.keys()));
   }
@@ -323,6 +1539,7 @@ export class TradingViewClient extends EventEmitter {
       // Save current subscriptions
       const currentSubscriptions = this.getSubscriptions();
       const subscriptionCount = currentSubscriptions.length;
+      const quoteSymbols = this.getQuoteSubscriptions();
       
       if (subscriptionCount > 0) {
         logger.info('[DIAG] fullReconnect() - saving %d current subscriptions before reconnect', subscriptionCount);
@@ -343,6 +1560,11 @@ export class TradingViewClient extends EventEmitter {
         await this.updateSubscriptions(currentSubscriptions, 'full_reconnect');
       }
       
+      // Restore quote subscriptions
+      for (const symbol of quoteSymbols) {
+        this.subscribeQuote(symbol);
+      }
+      
       logger.info('[DIAG] fullReconnect() completed successfully');
       return true;
     } catch (err) {
@@ -355,6 +1577,6 @@ export class TradingViewClient extends EventEmitter {
    * Check if the client is connected to TradingView
    */
   public isConnected(): boolean {
-    return this.connected;
+    return this.connected && this.connections.some(c => c.alive);
   }
 } 
\ No newline at end of file
@@ -3,9 +3,15 @@ import http from 'http';
 import { EventEmitter } from 'events';
 import { config } from './config';
 import { logger } from './logger';
-import { type Subscription } from './config';
-import { type Bar } from './tradingview';
+import { type Subscription, type IndicatorSubscription, type WebSocketApiKey, type BarMode, type ChartOptions, subscriptionKey, normalizeChartOptions } from './config';
+import { isAuthRequired, findApiKey, isSymbolAllowed, isWithinQuota } from './auth';
+import { type Bar, type Quote, type IndicatorValue, type ReplayInfo, MAX_HISTORY_RANGE, matchesBarMode, indicatorId } from './tradingview';
 import { getTradingViewClient } from './push';
+import { searchSymbols, type SymbolSearchResult } from './search';
+import { getTechnicalAnalysis, type TechnicalAnalysis, type TAChange } from './ta';
+import { SubscriptionRegistry, WS_OWNER_PREFIX } from './registry';
+import { normalizeTimeframe } from './timeframe';
+import type { BarCache } from './bar-cache';
 
 // WebSocket message types
 export enum MessageType {
@@ -17,6 +23,33 @@ export enum MessageType {
   INFO = 'info',
   SUBSCRIBE_MANY = 'subscribe_many',
   UNSUBSCRIBE_MANY = 'unsubscribe_many',
+  HISTORY = 'history',
+  FIREHOSE = 'firehose',
+  AUTH = 'auth',
+  QUOTE_SUBSCRIBE = 'quote_subscribe',
+  QUOTE_UNSUBSCRIBE = 'quote_unsubscribe',
+  QUOTE = 'quote',
+  SEARCH = 'search',
+  INDICATOR_SUBSCRIBE = 'indicator_subscribe',
+  INDICATOR_UNSUBSCRIBE = 'indicator_unsubscribe',
+  INDICATOR = 'indicator',
+  TA = 'ta',
+  TA_CHANGE = 'ta_change',
+  REPLAY_START = 'replay_start',
+  REPLAY_PLAY = 'replay_play',
+  REPLAY_PAUSE = 'replay_pause',
+  REPLAY_STEP = 'replay_step',
+  REPLAY_STOP = 'replay_stop',
+  REPLAY_BAR = 'replay_bar',
+  REPLAY_END = 'replay_end',
+  SNAPSHOT = 'snapshot',
+}
+
+// Machine readable error codes sent with ERROR responses
+export enum ErrorCode {
+  UNAUTHORIZED = 'unauthorized',
+  FORBIDDEN = 'forbidden',
+  QUOTA_EXCEEDED = 'quota_exceeded',
 }
 
 // Client request type
@@ -25,7 +58,44 @@ export interface WSRequest {
   symbol?: string;
   timeframe?: string;
   requestId?: string;
-  pairs?: { symbol: string; timeframe: string }[];
+  pairs?: { symbol: string; timeframe: string; options?: ChartOptions; barMode?: BarMode; aggregate?: boolean; baseTimeframe?: string }[];
+  // For subscribe/unsubscribe/history: chart type, session, currency and adjustment
+  options?: ChartOptions;
+  // For subscribe/subscribe_many/firehose: live updates, closed bars only, or both
+  barMode?: BarMode;
+  // For subscribe: build the timeframe locally from a base timeframe
+  aggregate?: boolean;
+  baseTimeframe?: string;
+  // For history: number of bars and last bar timestamp (unix seconds)
+  range?: number;
+  to?: number;
+  // For firehose: receive every bar regardless of subscriptions (default true)
+  enabled?: boolean;
+  // For quote_subscribe: quote fields to receive (all configured fields if not set)
+  fields?: string[];
+  // For indicator_subscribe: indicator id or built-in type, script version and inputs
+  indicator?: string;
+  version?: string;
+  inputs?: Record<string, any>;
+  // For indicator_unsubscribe: id returned by indicator_subscribe (alternative to symbol/timeframe/indicator/inputs)
+  indicatorId?: string;
+  // For replay_start: starting point (unix seconds); for replay_start/replay_play: ms between bars
+  from?: number;
+  intervalMs?: number;
+  // For replay_play/replay_pause/replay_step/replay_stop: id returned by replay_start
+  replayId?: string;
+  // For replay_step: number of bars (default 1)
+  count?: number;
+  // For snapshot: only the latest `limit` cached bars, opened at or after `since` (unix seconds)
+  limit?: number;
+  since?: number;
+  // For search: text to look for, optional market type and exchange filters
+  query?: string;
+  type?: string;
+  exchange?: string;
+  // For auth: API key or bearer token
+  apiKey?: string;
+  token?: string;
 }
 
 // Server response type
@@ -36,9 +106,21 @@ export interface WSResponse {
   message?: string;
   symbol?: string;
   timeframe?: string;
+  options?: ChartOptions;
   subscriptions?: Subscription[];
   bar?: Bar;
+  bars?: Bar[];
+  quote?: Quote;
+  symbols?: SymbolSearchResult[];
+  indicator?: IndicatorValue;
+  indicatorId?: string;
+  analysis?: TechnicalAnalysis;
+  replay?: ReplayInfo;
+  change?: TAChange;
+  // For history: pass as `to` to fetch the previous page, absent when there is no more data
+  nextTo?: number;
   error?: string;
+  code?: ErrorCode | string;
 }
 
 export class WebSocketServer extends EventEmitter {
@@ -46,10 +128,40 @@ export class WebSocketServer extends EventEmitter {
   private clients: Set<WebSocket> = new Set();
   private activeSubscriptions: Map<string, Subscription> = new Map();
 
-  // New structures for per-client subscription tracking
-  private clientSubscriptions: Map<WebSocket, Set<string>> = new Map();
+  // New structures for per-client subscription tracking (with the client's bar mode per subscription)
+  private clientSubscriptions: Map<WebSocket, Map<string, BarMode>> = new Map();
   private subscriptionClients: Map<string, Set<WebSocket>> = new Map();
 
+  // Subscriptions waiting for TradingView to load their chart, with the requests to answer once it did
+  private pendingSubscriptions: Map<string, ((error: string | null) => void)[]> = new Map();
+
+  // Clients that opted in to receive every bar regardless of their subscriptions
+  private firehoseClients: Map<WebSocket, BarMode> = new Map();
+
+  // Quote subscriptions: requested fields per client and symbol, and clients per symbol
+  private clientQuotes: Map<WebSocket, Map<string, string[]>> = new Map();
+  private quoteClients: Map<string, Set<WebSocket>> = new Map();
+  // Quote subscriptions waiting for TradingView to create their market, with the requests to answer once it did
+  private pendingQuotes: Map<string, ((error: string | null) => void)[]> = new Map();
+
+  // Indicator subscriptions: bar mode per client and indicator id, and clients per indicator id
+  private clientIndicators: Map<WebSocket, Map<string, BarMode>> = new Map();
+  private indicatorClients: Map<string, Set<WebSocket>> = new Map();
+  private indicatorSubscriptions: Map<string, IndicatorSubscription> = new Map();
+
+  // Replay sessions owned by each client, and owner of each replay session
+  private clientReplays: Map<WebSocket, Set<string>> = new Map();
+  private replayOwners: Map<string, WebSocket> = new Map();
+
+  // API key of each authenticated client
+  private clientKeys: Map<WebSocket, WebSocketApiKey> = new Map();
+
+  // Recent bars served by the snapshot action, set once the TradingView client exists
+  private barCache: BarCache | null = null;
+
+  // Registry of server-owned subscriptions, those an API key holds over HTTP count towards its quota
+  private registry: SubscriptionRegistry | null = null;
+
   constructor(server?: http.Server) {
     super();
     
@@ -67,8 +179,8 @@ export class WebSocketServer extends EventEmitter {
     }
 
     // Handle new connections
-    this.wss.on('connection', (ws: WebSocket) => {
-      this.handleConnection(ws);
+    this.wss.on('connection', (ws: WebSocket, req: http.IncomingMessage) => {
+      this.handleConnection(ws, req);
     });
 
     // Handle server errors
@@ -78,16 +190,50 @@ export class WebSocketServer extends EventEmitter {
   }
 
   // Handle new connection
-  private handleConnection(ws: WebSocket) {
+  private handleConnection(ws: WebSocket, req?: http.IncomingMessage) {
     logger.info('New WebSocket client connected');
     this.clients.add(ws);
-    this.clientSubscriptions.set(ws, new Set());
+    this.clientSubscriptions.set(ws, new Map());
+
+    let authTimer: NodeJS.Timeout | null = null;
+    if (isAuthRequired()) {
+      // Credentials may be passed on connect as ?apiKey=/?token= or an Authorization: Bearer header
+      const token = this.getConnectToken(req);
+      if (token) {
+        const apiKey = findApiKey(token);
+        if (!apiKey) {
+          logger.warn('WebSocket client rejected: invalid API key on connect');
+          this.sendMessage(ws, {
+            type: MessageType.ERROR,
+            success: false,
+            code: ErrorCode.UNAUTHORIZED,
+            message: 'Invalid API key'
+          });
+          ws.close(4401, 'Unauthorized');
+          this.clients.delete(ws);
+          this.clientSubscriptions.delete(ws);
+          return;
+        }
+        this.clientKeys.set(ws, apiKey);
+        logger.info('WebSocket client authenticated on connect as %s', apiKey.name || 'unnamed key');
+      } else {
+        // Otherwise the first message must be an auth action
+        authTimer = setTimeout(() => {
+          if (!this.clientKeys.has(ws)) {
+            logger.warn('WebSocket client did not authenticate within %dms, closing', config.websocket.auth.timeoutMs);
+            ws.close(4401, 'Authentication timeout');
+          }
+        }, config.websocket.auth.timeoutMs);
+      }
+    }
 
     // Send welcome message
     this.sendMessage(ws, {
       type: MessageType.INFO,
       success: true,
-      message: 'Connected to TradingView WebSocket Server'
+      message: isAuthRequired() && !this.clientKeys.has(ws)
+        ? 'Connected to TradingView WebSocket Server, authentication required'
+        : 'Connected to TradingView WebSocket Server'
     });
 
     // Handle messages from client
@@ -108,36 +254,42 @@ export class WebSocketServer extends EventEmitter {
     // Handle disconnection
     ws.on('close', async () => {
       logger.info('[DIAG] ws.on(close) triggered. activeSubscriptions: %d', this.activeSubscriptions.size);
+      if (authTimer) clearTimeout(authTimer);
       this.clients.delete(ws);
+      this.firehoseClients.delete(ws);
       // Automatic unsubscription from all tickers subscribed to by this client
       const subs = this.clientSubscriptions.get(ws);
       if (subs) {
-        for (const key of subs) {
-          const clients = this.subscriptionClients.get(key);
-          if (clients) {
-            clients.delete(ws);
-            if (clients.size === 0) {
-              this.subscriptionClients.delete(key);
-              const [symbol, timeframe] = key.split('_');
-              this.activeSubscriptions.delete(key);
-              logger.info('[DIAG] activeSubscriptions deleted key: %s. Now: %o', key, Array.from(this.activeSubscriptions.keys()));
-              this.emit('unsubscribe', { symbol, timeframe });
-              logger.info('Auto-unsubscribed from %s/%s (last client disconnected)', symbol, timeframe);
-            }
+        for (const key of Array.from(subs.keys())) {
+          if (this.removeClientSubscription(ws, key)) {
+            logger.info('[DIAG] activeSubscriptions deleted key: %s. Now: %o', key, Array.from(this.activeSubscriptions.keys()));
+            logger.info('Auto-unsubscribed from %s (last client disconnected)', key);
           }
         }
         this.clientSubscriptions.delete(ws);
+        for (const symbol of Array.from(this.clientQuotes.get(ws)?.keys() || [])) {
+          this.removeClientQuote(ws, symbol);
+        }
+        this.clientQuotes.delete(ws);
+        for (const id of Array.from(this.clientIndicators.get(ws)?.keys() || [])) {
+          this.removeClientIndicator(ws, id);
+        }
+        this.clientIndicators.delete(ws);
+        // Replay sessions belong to the client, stop them with it
+        for (const id of Array.from(this.clientReplays.get(ws) || [])) {
+          this.replayOwners.delete(id);
+          getTradingViewClient()?.stopReplay(id, 'client_disconnected');
+        }
+        this.clientReplays.delete(ws);
         logger.info('[DIAG] clients.size after delete: %d', this.clients.size);
         if (this.clients.size === 0) {
-          logger.info('[DIAG] No WebSocket clients left, forcibly clearing all activeSubscriptions and resetting TradingView');
+          logger.info('[DIAG] No WebSocket clients left, clearing all activeSubscriptions');
           this.activeSubscriptions.clear();
-          const tvClient = getTradingViewClient && getTradingViewClient();
-          if (tvClient && typeof tvClient.resetAllSubscriptions === 'function') {
-            await tvClient.resetAllSubscriptions();
-            logger.info('[DIAG] resetAllSubscriptions() forcibly called due to no clients');
-          }
+          this.emit('no_clients');
         }
       }
+      // Kept until now, subscriptions are released on behalf of the client's API key
+      this.clientKeys.delete(ws);
     });
 
     // Handle errors
@@ -148,7 +300,36 @@ export class WebSocketServer extends EventEmitter {
 
   // Handle incoming messages
   private handleMessage(ws: WebSocket, data: WSRequest) {
-    logger.info(`Received WebSocket message: ${JSON.stringify(data)}`);
+    logger.info(`Received WebSocket message: ${JSON.stringify({ ...data, apiKey: undefined, token: undefined })}`);
+
+    if (data.action === MessageType.AUTH) {
+      return this.handleAuth(ws, data);
+    }
+
+    if (isAuthRequired() && !this.clientKeys.has(ws)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: ErrorCode.UNAUTHORIZED,
+        message: 'Authentication required'
+      });
+    }
+
+    // Timeframes are handled under their TradingView name from here on ('1h' is '60')
+    try {
+      if (data.timeframe) data.timeframe = normalizeTimeframe(data.timeframe);
+      if (data.baseTimeframe) data.baseTimeframe = normalizeTimeframe(data.baseTimeframe);
+    } catch (err) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: (err as Error).message,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
 
     switch (data.action) {
       case MessageType.SUBSCRIBE:
@@ -164,13 +345,60 @@ export class WebSocketServer extends EventEmitter {
         break;
       
       case MessageType.SUBSCRIBE_MANY:
-        this.handleSubscribeMany(ws, data);
+        this.replyOnFailure(ws, data, this.handleSubscribeMany(ws, data));
         break;
       
       case MessageType.UNSUBSCRIBE_MANY:
         this.handleUnsubscribeMany(ws, data);
         break;
       
+      case MessageType.HISTORY:
+        this.replyOnFailure(ws, data, this.handleHistory(ws, data));
+        break;
+      
+      case MessageType.SNAPSHOT:
+        this.handleSnapshot(ws, data);
+        break;
+      
+      case MessageType.FIREHOSE:
+        this.handleFirehose(ws, data);
+        break;
+      
+      case MessageType.TA:
+        this.replyOnFailure(ws, data, this.handleTA(ws, data));
+        break;
+      
+      case MessageType.REPLAY_START:
+        this.replyOnFailure(ws, data, this.handleReplayStart(ws, data));
+        break;
+      
+      case MessageType.REPLAY_PLAY:
+      case MessageType.REPLAY_PAUSE:
+      case MessageType.REPLAY_STEP:
+      case MessageType.REPLAY_STOP:
+        this.replyOnFailure(ws, data, this.handleReplayControl(ws, data));
+        break;
+      
+      case MessageType.SEARCH:
+        this.replyOnFailure(ws, data, this.handleSearch(ws, data));
+        break;
+      
+      case MessageType.INDICATOR_SUBSCRIBE:
+        this.handleIndicatorSubscribe(ws, data);
+        break;
+      
+      case MessageType.INDICATOR_UNSUBSCRIBE:
+        this.handleIndicatorUnsubscribe(ws, data);
+        break;
+      
+      case MessageType.QUOTE_SUBSCRIBE:
+        this.replyOnFailure(ws, data, this.handleQuoteSubscribe(ws, data));
+        break;
+      
+      case MessageType.QUOTE_UNSUBSCRIBE:
+        this.handleQuoteUnsubscribe(ws, data);
+        break;
+      
       default:
         this.sendMessage(ws, {
           type: MessageType.ERROR,
@@ -192,46 +420,69 @@ export class WebSocketServer extends EventEmitter {
       });
     }
 
-    const key = `${data.symbol}_${data.timeframe}`;
-    // If there is already such a subscription for this client — just confirm
-    const clientSubs = this.clientSubscriptions.get(ws) || new Set();
-    if (clientSubs.has(key)) {
+    let subscription: Subscription;
+    try {
+      subscription = this.toSubscription(data);
+    } catch (err) {
       return this.sendMessage(ws, {
-        type: MessageType.SUBSCRIBE,
+        type: MessageType.ERROR,
         requestId: data.requestId,
-        success: true,
-        message: 'Already subscribed',
+        success: false,
+        message: (err as Error).message,
         symbol: data.symbol,
         timeframe: data.timeframe
       });
     }
-    // Add subscription for client
-    clientSubs.add(key);
-    this.clientSubscriptions.set(ws, clientSubs);
-    // Add client to ticker listener list
-    let clients = this.subscriptionClients.get(key);
-    let isFirst = false;
-    if (!clients) {
-      clients = new Set();
-      this.subscriptionClients.set(key, clients);
-      isFirst = true;
+
+    const denied = this.checkSubscriptionAccess(ws, subscription);
+    if (denied) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: denied.code,
+        message: denied.message,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
     }
-    clients.add(ws);
-    // If this is the first subscription to the ticker — create TradingView subscription
-    if (isFirst) {
-      const subscription: Subscription = { symbol: data.symbol, timeframe: data.timeframe };
-      this.activeSubscriptions.set(key, subscription);
-      this.emit('subscribe', subscription);
-      logger.info('First client subscribed to %s/%s, subscribing to TradingView', data.symbol, data.timeframe);
+
+    const barMode = this.resolveBarMode(data.barMode);
+    if (!barMode) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'barMode must be one of: live, closed, both'
+      });
     }
-    // Confirm to client
-    this.sendMessage(ws, {
-      type: MessageType.SUBSCRIBE,
-      requestId: data.requestId,
-      success: true,
-      message: isFirst ? 'Subscription created' : 'Subscribed (shared)',
-      symbol: data.symbol,
-      timeframe: data.timeframe
+
+    // Confirm to client once TradingView loaded the chart, or report why it could not
+    this.replyOnFailure(ws, data, this.addClientSubscription(ws, subscription, barMode).then(({ success, message }) => {
+      this.sendMessage(ws, {
+        type: MessageType.SUBSCRIBE,
+        requestId: data.requestId,
+        success,
+        message,
+        symbol: data.symbol,
+        timeframe: data.timeframe,
+        options: subscription.options
+      });
+    }));
+  }
+
+  // Reply with an error when an asynchronous request fails unexpectedly, instead of leaving it unanswered
+  private replyOnFailure(ws: WebSocket, data: WSRequest, handling: Promise<unknown>) {
+    handling.catch((err) => {
+      logger.error('WebSocket %s request failed: %s', data.action, (err as Error).message);
+      this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Request failed: ${(err as Error).message}`,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
     });
   }
 
@@ -246,7 +497,20 @@ export class WebSocketServer extends EventEmitter {
       });
     }
 
-    const key = `${data.symbol}_${data.timeframe}`;
+    let key: string;
+    try {
+      key = subscriptionKey(this.toSubscription(data));
+    } catch (err) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: (err as Error).message,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+
     const clientSubs = this.clientSubscriptions.get(ws);
     if (!clientSubs || !clientSubs.has(key)) {
       return this.sendMessage(ws, {
@@ -258,17 +522,8 @@ export class WebSocketServer extends EventEmitter {
         timeframe: data.timeframe
       });
     }
-    clientSubs.delete(key);
-    // Remove client from ticker listener list
-    const clients = this.subscriptionClients.get(key);
-    if (clients) {
-      clients.delete(ws);
-      if (clients.size === 0) {
-        this.subscriptionClients.delete(key);
-        this.activeSubscriptions.delete(key);
-        this.emit('unsubscribe', { symbol: data.symbol, timeframe: data.timeframe });
-        logger.info('Last client unsubscribed from %s/%s, unsubscribing from TradingView', data.symbol, data.timeframe);
-      }
+    if (this.removeClientSubscription(ws, key)) {
+      logger.info('Last client unsubscribed from %s, unsubscribing from TradingView', key);
     }
     // Confirm to client
     this.sendMessage(ws, {
@@ -293,8 +548,8 @@ export class WebSocketServer extends EventEmitter {
     });
   }
 
-  // Bulk subscription
-  private handleSubscribeMany(ws: WebSocket, data: WSRequest) {
+  // Bulk subscription, answered once every chart is loaded or failed
+  private async handleSubscribeMany(ws: WebSocket, data: WSRequest) {
     if (!Array.isArray(data.pairs) || data.pairs.length === 0) {
       return this.sendMessage(ws, {
         type: MessageType.ERROR,
@@ -303,22 +558,29 @@ export class WebSocketServer extends EventEmitter {
         message: 'pairs[] required for subscribe_many'
       });
     }
-    const results = data.pairs.map(pair => {
+    const results = await Promise.all(data.pairs.map(async pair => {
       if (!pair.symbol || !pair.timeframe) {
         logger.warn('[DIAG] Skipping invalid pair in subscribe_many: %o', pair);
         return { ...pair, success: false, message: 'symbol and timeframe required' };
       }
-      const key = `${pair.symbol}_${pair.timeframe}`;
-      if (this.activeSubscriptions.has(key)) {
-        logger.info('[DIAG] Skipping subscribe_many for %s/%s: already subscribed', pair.symbol, pair.timeframe);
-        return { ...pair, success: true, message: 'Already subscribed' };
+      let subscription: Subscription;
+      try {
+        subscription = this.toSubscription(pair);
+      } catch (err) {
+        return { ...pair, success: false, message: (err as Error).message };
+      }
+      const denied = this.checkSubscriptionAccess(ws, subscription);
+      if (denied) {
+        return { ...pair, success: false, code: denied.code, message: denied.message };
       }
-      const subscription: Subscription = { symbol: pair.symbol, timeframe: pair.timeframe };
-      this.activeSubscriptions.set(key, subscription);
-      this.emit('subscribe', subscription);
-      logger.info('[DIAG] subscribe_many triggers new subscribe for %s/%s', pair.symbol, pair.timeframe);
-      return { ...pair, success: true, message: 'Subscription created' };
-    });
+      const barMode = this.resolveBarMode(pair.barMode ?? data.barMode);
+      if (!barMode) {
+        return { ...pair, success: false, message: 'barMode must be one of: live, closed, both' };
+      }
+      const { success, message } = await this.addClientSubscription(ws, subscription, barMode);
+      logger.info('[DIAG] subscribe_many %s/%s: %s', pair.symbol, pair.timeframe, message);
+      return { ...pair, success, message };
+    }));
     this.sendMessage(ws, {
       type: MessageType.SUBSCRIBE_MANY,
       requestId: data.requestId,
@@ -343,12 +605,17 @@ export class WebSocketServer extends EventEmitter {
       if (!pair.symbol || !pair.timeframe) {
         return { ...pair, success: false, message: 'symbol and timeframe required' };
       }
-      const key = `${pair.symbol}_${pair.timeframe}`;
-      if (!this.activeSubscriptions.has(key)) {
-        return { ...pair, success: false, message: 'Subscription not found' };
+      let key: string;
+      try {
+        key = subscriptionKey(this.toSubscription(pair));
+      } catch (err) {
+        return { ...pair, success: false, message: (err as Error).message };
+      }
+      const clientSubs = this.clientSubscriptions.get(ws);
+      if (!clientSubs || !clientSubs.has(key)) {
+        return { ...pair, success: false, message: 'Subscription not found for this client' };
       }
-      this.activeSubscriptions.delete(key);
-      this.emit('unsubscribe', { symbol: pair.symbol, timeframe: pair.timeframe });
+      this.removeClientSubscription(ws, key);
       return { ...pair, success: true, message: 'Unsubscribed successfully' };
     });
     this.sendMessage(ws, {
@@ -361,40 +628,1028 @@ export class WebSocketServer extends EventEmitter {
     } as any);
   }
 
-  // Send message to client
-  private sendMessage(ws: WebSocket, data: WSResponse) {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(data));
+  // Extract credentials passed when opening the connection
+  private getConnectToken(req?: http.IncomingMessage): string | null {
+    if (!req) return null;
+    const authHeader = req.headers['authorization'];
+    if (typeof authHeader === 'string' && authHeader.toLowerCase().startsWith('bearer ')) {
+      return authHeader.slice(7).trim();
     }
+    const url = new URL(req.url || '/', 'http://localhost');
+    return url.searchParams.get('apiKey') || url.searchParams.get('token');
   }
 
-  // Send bar to all connected clients
-  public broadcastBar(bar: Bar) {
-    const message: WSResponse = {
-      type: MessageType.BAR,
-      bar
-    };
-    
-    this.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(message));
-      }
+  // Authenticate with an API key or bearer token sent as a message
+  private handleAuth(ws: WebSocket, data: WSRequest) {
+    const apiKey = findApiKey(data.apiKey || data.token);
+    if (!isAuthRequired()) {
+      return this.sendMessage(ws, {
+        type: MessageType.AUTH,
+        requestId: data.requestId,
+        success: true,
+        message: 'Authentication not required'
+      });
+    }
+    if (!apiKey) {
+      logger.warn('WebSocket client failed to authenticate: invalid API key');
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: ErrorCode.UNAUTHORIZED,
+        message: 'Invalid API key'
+      });
+    }
+    this.clientKeys.set(ws, apiKey);
+    logger.info('WebSocket client authenticated as %s', apiKey.name || 'unnamed key');
+    this.sendMessage(ws, {
+      type: MessageType.AUTH,
+      requestId: data.requestId,
+      success: true,
+      message: 'Authenticated'
+    });
+  }
+
+  // Registry owner of a client's subscriptions: its API key name
+  private ownerOf(ws: WebSocket): string {
+    const apiKey = this.clientKeys.get(ws);
+    return `${WS_OWNER_PREFIX}${apiKey ? apiKey.name || 'unnamed' : 'anonymous'}`;
+  }
+
+  // Check symbol permissions and subscription quota of the client's API key
+  private checkSubscriptionAccess(ws: WebSocket, subscription: Subscription): { code: ErrorCode; message: string } | null {
+    return this.checkAccess(ws, subscription.symbol, `bar:${subscriptionKey(subscription)}`);
+  }
+
+  /**
+   * Bar, quote and indicator subscriptions all count towards the quota, across every
+   * connection of the API key and its subscriptions over HTTP. `id` identifies the
+   * requested subscription, which is free when the key already holds it.
+   */
+  private checkAccess(ws: WebSocket, symbol: string, id: string): { code: ErrorCode; message: string } | null {
+    const apiKey = this.clientKeys.get(ws);
+    if (!isSymbolAllowed(apiKey, symbol)) {
+      return { code: ErrorCode.FORBIDDEN, message: `Symbol ${symbol} is not allowed for this API key` };
+    }
+    if (!apiKey?.maxSubscriptions) {
+      return null;
+    }
+    const held = this.getKeySubscriptions(apiKey);
+    if (held.has(id)) {
+      return null;
+    }
+    if (!isWithinQuota(apiKey, held.size)) {
+      return { code: ErrorCode.QUOTA_EXCEEDED, message: `Subscription limit of ${apiKey?.maxSubscriptions} reached for this API key` };
+    }
+    return null;
+  }
+
+  /**
+   * Subscriptions held by an API key (bar, quote and indicator ids, prefixed by their kind):
+   * those of its connections and the registry entries it owns through the HTTP API
+   */
+  public getKeySubscriptions(apiKey: WebSocketApiKey): Set<string> {
+    const held = new Set<string>();
+    for (const entry of this.registry?.list() || []) {
+      if (entry.owners.includes(apiKey.name!)) held.add(`bar:${entry.key}`);
+    }
+    for (const [client, key] of this.clientKeys.entries()) {
+      if (key.key !== apiKey.key) continue;
+      for (const id of this.clientSubscriptions.get(client)?.keys() || []) held.add(`bar:${id}`);
+      for (const symbol of this.clientQuotes.get(client)?.keys() || []) held.add(`quote:${symbol}`);
+      for (const id of this.clientIndicators.get(client)?.keys() || []) held.add(`indicator:${id}`);
+    }
+    return held;
+  }
+
+  /**
+   * Register a client as listener of symbol/timeframe, subscribing to TradingView for the first one.
+   * Resolves once TradingView loaded the chart; a subscription whose chart failed is rolled back.
+   */
+  private async addClientSubscription(ws: WebSocket, subscription: Subscription, barMode: BarMode): Promise<{ success: boolean; message: string }> {
+    const key = subscriptionKey(subscription);
+    // If there is already such a subscription for this client — just update its bar mode and confirm
+    const clientSubs = this.clientSubscriptions.get(ws) || new Map<string, BarMode>();
+    if (clientSubs.has(key)) {
+      clientSubs.set(key, barMode);
+      return this.awaitChart(ws, key, 'Already subscribed');
+    }
+    // Add subscription for client
+    clientSubs.set(key, barMode);
+    this.clientSubscriptions.set(ws, clientSubs);
+    // Add client to ticker listener list
+    let clients = this.subscriptionClients.get(key);
+    let isFirst = false;
+    if (!clients) {
+      clients = new Set();
+      this.subscriptionClients.set(key, clients);
+      isFirst = true;
+    }
+    clients.add(ws);
+    this.emit('owner_subscribe', { subscription, owner: this.ownerOf(ws) });
+    // If this is the first subscription to the ticker — create TradingView subscription
+    if (isFirst) {
+      this.activeSubscriptions.set(key, subscription);
+      // Answered by settleSubscription() once the chart is loaded
+      if (!this.pendingSubscriptions.has(key)) this.pendingSubscriptions.set(key, []);
+      this.emit('subscribe', subscription);
+      logger.info('First client subscribed to %s, subscribing to TradingView', key);
+    }
+    return this.awaitChart(ws, key, isFirst ? 'Subscription created' : 'Subscribed (shared)');
+  }
+
+  // Wait for the chart of a subscription that is still loading, removing the client if it failed
+  private async awaitChart(ws: WebSocket, key: string, message: string): Promise<{ success: boolean; message: string }> {
+    const waiters = this.pendingSubscriptions.get(key);
+    if (!waiters) return { success: true, message };
+    const error = await new Promise<string | null>(resolve => waiters.push(resolve));
+    if (error === null) return { success: true, message };
+    this.removeClientSubscription(ws, key);
+    return { success: false, message: error };
+  }
+
+  // Remove a client from the listeners of a subscription key, returns true if it was the last one
+  private removeClientSubscription(ws: WebSocket, key: string): boolean {
+    this.clientSubscriptions.get(ws)?.delete(key);
+    const clients = this.subscriptionClients.get(key);
+    if (!clients) return false;
+    clients.delete(ws);
+    // The owner is gone once none of its connections uses the subscription
+    const owner = this.ownerOf(ws);
+    if (this.activeSubscriptions.has(key) && !Array.from(clients).some(c => this.ownerOf(c) === owner)) {
+      this.emit('owner_unsubscribe', { subscription: this.activeSubscriptions.get(key), owner });
+    }
+    if (clients.size > 0) return false;
+    const subscription = this.activeSubscriptions.get(key);
+    this.subscriptionClients.delete(key);
+    this.activeSubscriptions.delete(key);
+    if (subscription) this.emit('unsubscribe', subscription);
+    return true;
+  }
+
+  // Handle quote subscription request
+  private async handleQuoteSubscribe(ws: WebSocket, data: WSRequest) {
+    if (!data.symbol) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Symbol is required for quote subscription'
+      });
+    }
+    if (data.fields !== undefined && (!Array.isArray(data.fields) || data.fields.length === 0)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'fields must be a non-empty array'
+      });
+    }
+    const fields = data.fields || config.quotes.fields;
+    const unknown = fields.filter(f => !config.quotes.fields.includes(f));
+    if (unknown.length > 0) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Unknown quote fields: ${unknown.join(', ')}. Available: ${config.quotes.fields.join(', ')}`
+      });
+    }
+
+    const clientQuotes = this.clientQuotes.get(ws) || new Map<string, string[]>();
+    const denied = this.checkAccess(ws, data.symbol, `quote:${data.symbol}`);
+    if (denied) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: denied.code,
+        message: denied.message,
+        symbol: data.symbol
+      });
+    }
+
+    const alreadySubscribed = clientQuotes.has(data.symbol);
+    clientQuotes.set(data.symbol, fields);
+    this.clientQuotes.set(ws, clientQuotes);
+    let clients = this.quoteClients.get(data.symbol);
+    const isFirst = !clients;
+    if (!clients) {
+      clients = new Set();
+      this.quoteClients.set(data.symbol, clients);
+    }
+    clients.add(ws);
+    // If this is the first quote subscription to the symbol — subscribe on TradingView,
+    // answered by settleQuote() once the market is created
+    const settled = this.awaitQuote(data.symbol, isFirst);
+    if (isFirst) {
+      this.emit('quote_subscribe', { symbol: data.symbol });
+      logger.info('First client subscribed to quotes for %s, subscribing to TradingView', data.symbol);
+    }
+    const error = await settled;
+    if (error !== null) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Quote subscription failed: ${error}`,
+        symbol: data.symbol
+      });
+    }
+
+    this.sendMessage(ws, {
+      type: MessageType.QUOTE_SUBSCRIBE,
+      requestId: data.requestId,
+      success: true,
+      message: alreadySubscribed ? 'Already subscribed' : isFirst ? 'Subscription created' : 'Subscribed (shared)',
+      symbol: data.symbol
     });
   }
 
+  // Handle quote unsubscription request
+  private handleQuoteUnsubscribe(ws: WebSocket, data: WSRequest) {
+    if (!data.symbol) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Symbol is required for quote unsubscription'
+      });
+    }
+    if (!this.clientQuotes.get(ws)?.has(data.symbol)) {
+      return this.sendMessage(ws, {
+        type: MessageType.QUOTE_UNSUBSCRIBE,
+        requestId: data.requestId,
+        success: false,
+        message: 'Quote subscription not found for this client',
+        symbol: data.symbol
+      });
+    }
+    this.removeClientQuote(ws, data.symbol);
+    this.sendMessage(ws, {
+      type: MessageType.QUOTE_UNSUBSCRIBE,
+      requestId: data.requestId,
+      success: true,
+      message: 'Unsubscribed successfully',
+      symbol: data.symbol
+    });
+  }
+
+  // Wait until TradingView created the quote market of a symbol, the first subscriber starts the wait
+  private awaitQuote(symbol: string, isFirst: boolean): Promise<string | null> {
+    if (isFirst) this.pendingQuotes.set(symbol, []);
+    const waiters = this.pendingQuotes.get(symbol);
+    if (!waiters) return Promise.resolve(null);
+    return new Promise<string | null>(resolve => waiters.push(resolve));
+  }
+
+  // Remove a client from quote listeners of a symbol, unsubscribing after the last one
+  private removeClientQuote(ws: WebSocket, symbol: string): boolean {
+    this.clientQuotes.get(ws)?.delete(symbol);
+    const clients = this.quoteClients.get(symbol);
+    if (!clients) return false;
+    clients.delete(ws);
+    if (clients.size > 0) return false;
+    this.quoteClients.delete(symbol);
+    this.emit('quote_unsubscribe', { symbol });
+    logger.info('Last client unsubscribed from quotes for %s, unsubscribing from TradingView', symbol);
+    return true;
+  }
+
+  // Handle indicator subscription request
+  private handleIndicatorSubscribe(ws: WebSocket, data: WSRequest) {
+    if (!data.symbol || !data.timeframe || !data.indicator) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Symbol, timeframe and indicator are required for indicator subscription'
+      });
+    }
+    if (data.inputs !== undefined && (typeof data.inputs !== 'object' || data.inputs === null || Array.isArray(data.inputs))) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'inputs must be an object'
+      });
+    }
+    const barMode = this.resolveBarMode(data.barMode);
+    if (!barMode) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'barMode must be one of: live, closed, both'
+      });
+    }
+
+    const subscription: IndicatorSubscription = {
+      symbol: data.symbol,
+      timeframe: data.timeframe,
+      indicator: data.indicator,
+      version: data.version,
+      inputs: data.inputs,
+    };
+    const id = indicatorId(subscription);
+    const clientIndicators = this.clientIndicators.get(ws) || new Map<string, BarMode>();
+    const denied = this.checkAccess(ws, data.symbol, `indicator:${id}`);
+    if (denied) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: denied.code,
+        message: denied.message,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+
+    const alreadySubscribed = clientIndicators.has(id);
+    clientIndicators.set(id, barMode);
+    this.clientIndicators.set(ws, clientIndicators);
+    let clients = this.indicatorClients.get(id);
+    const isFirst = !clients;
+    if (!clients) {
+      clients = new Set();
+      this.indicatorClients.set(id, clients);
+      this.indicatorSubscriptions.set(id, subscription);
+    }
+    clients.add(ws);
+    // If this is the first client of the indicator — add the study on TradingView
+    if (isFirst) {
+      this.emit('indicator_subscribe', subscription);
+      logger.info('First client subscribed to indicator %s, subscribing to TradingView', id);
+    }
+
+    this.sendMessage(ws, {
+      type: MessageType.INDICATOR_SUBSCRIBE,
+      requestId: data.requestId,
+      success: true,
+      message: alreadySubscribed ? 'Already subscribed' : isFirst ? 'Subscription created' : 'Subscribed (shared)',
+      symbol: data.symbol,
+      timeframe: data.timeframe,
+      indicatorId: id
+    });
+  }
+
+  // Handle indicator unsubscription request
+  private handleIndicatorUnsubscribe(ws: WebSocket, data: WSRequest) {
+    let id = data.indicatorId;
+    if (!id && data.symbol && data.timeframe && data.indicator) {
+      id = indicatorId({ symbol: data.symbol, timeframe: data.timeframe, indicator: data.indicator, version: data.version, inputs: data.inputs });
+    }
+    if (!id) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'indicatorId (or symbol, timeframe and indicator) is required for indicator unsubscription'
+      });
+    }
+    if (!this.clientIndicators.get(ws)?.has(id)) {
+      return this.sendMessage(ws, {
+        type: MessageType.INDICATOR_UNSUBSCRIBE,
+        requestId: data.requestId,
+        success: false,
+        message: 'Indicator subscription not found for this client',
+        indicatorId: id
+      });
+    }
+    this.removeClientIndicator(ws, id);
+    this.sendMessage(ws, {
+      type: MessageType.INDICATOR_UNSUBSCRIBE,
+      requestId: data.requestId,
+      success: true,
+      message: 'Unsubscribed successfully',
+      indicatorId: id
+    });
+  }
+
+  // Remove a client from indicator listeners, removing the study after the last one
+  private removeClientIndicator(ws: WebSocket, id: string): boolean {
+    this.clientIndicators.get(ws)?.delete(id);
+    const clients = this.indicatorClients.get(id);
+    if (!clients) return false;
+    clients.delete(ws);
+    if (clients.size > 0) return false;
+    const subscription = this.indicatorSubscriptions.get(id);
+    this.indicatorClients.delete(id);
+    this.indicatorSubscriptions.delete(id);
+    if (subscription) {
+      this.emit('indicator_unsubscribe', { ...subscription, id });
+      logger.info('Last client unsubscribed from indicator %s, unsubscribing from TradingView', id);
+    }
+    return true;
+  }
+
+  // Build a subscription from request fields, throws on invalid timeframes or chart options
+  private toSubscription(data: { symbol?: string; timeframe?: string; options?: unknown; aggregate?: boolean; baseTimeframe?: string }): Subscription {
+    const subscription: Subscription = { symbol: data.symbol as string, timeframe: normalizeTimeframe(data.timeframe as string) };
+    const options = normalizeChartOptions(data.options);
+    if (options) subscription.options = options;
+    if (data.aggregate) {
+      subscription.aggregate = true;
+      if (data.baseTimeframe) subscription.baseTimeframe = normalizeTimeframe(data.baseTimeframe);
+    }
+    return subscription;
+  }
+
+  // Validate a requested bar mode, falling back to the server default when not set
+  private resolveBarMode(value: unknown): BarMode | null {
+    if (value === undefined || value === null) return config.websocket.barMode;
+    return value === 'live' || value === 'closed' || value === 'both' ? value : null;
+  }
+
+  // Toggle receiving every bar regardless of subscriptions
+  private handleFirehose(ws: WebSocket, data: WSRequest) {
+    const enabled = data.enabled !== false;
+    const barMode = this.resolveBarMode(data.barMode);
+    if (!barMode) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'barMode must be one of: live, closed, both'
+      });
+    }
+    if (enabled) {
+      this.firehoseClients.set(ws, barMode);
+    } else {
+      this.firehoseClients.delete(ws);
+    }
+    logger.info('WebSocket client %s firehose mode (%d firehose clients)', enabled ? 'enabled' : 'disabled', this.firehoseClients.size);
+    this.sendMessage(ws, {
+      type: MessageType.FIREHOSE,
+      requestId: data.requestId,
+      success: true,
+      message: enabled ? 'Firehose enabled' : 'Firehose disabled'
+    });
+  }
+
+  // Historical bars request
+  private async handleHistory(ws: WebSocket, data: WSRequest) {
+    if (!data.symbol || !data.timeframe) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Symbol and timeframe are required for history'
+      });
+    }
+    if ((data.range !== undefined && !(Number(data.range) > 0)) || (data.to !== undefined && !(Number(data.to) > 0))) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'range and to must be positive numbers'
+      });
+    }
+
+    if (!isSymbolAllowed(this.clientKeys.get(ws), data.symbol)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: ErrorCode.FORBIDDEN,
+        message: `Symbol ${data.symbol} is not allowed for this API key`,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+
+    const tvClient = getTradingViewClient();
+    if (!tvClient) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'TradingView client not available'
+      });
+    }
+
+    const range = data.range !== undefined ? Number(data.range) : undefined;
+    try {
+      const bars = await tvClient.getHistory(data.symbol, data.timeframe, {
+        range,
+        to: data.to !== undefined ? Number(data.to) : undefined,
+        chartOptions: normalizeChartOptions(data.options),
+      });
+      // A full page means there may be older bars: the client continues from just before the oldest one
+      const full = bars.length > 0 && bars.length >= Math.min(range || 100, MAX_HISTORY_RANGE);
+      this.sendMessage(ws, {
+        type: MessageType.HISTORY,
+        requestId: data.requestId,
+        success: true,
+        symbol: data.symbol,
+        timeframe: data.timeframe,
+        bars,
+        nextTo: full ? bars[0].time - 1 : undefined
+      });
+    } catch (err) {
+      logger.error('History request failed for %s/%s: %s', data.symbol, data.timeframe, (err as Error).message);
+      this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Failed to fetch history: ${(err as Error).message}`,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+  }
+
+  // Cached recent bars of an active subscription, so clients need not wait for the next update
+  private handleSnapshot(ws: WebSocket, data: WSRequest) {
+    if (!data.symbol || !data.timeframe) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Symbol and timeframe are required for snapshot'
+      });
+    }
+    if ((data.limit !== undefined && !(Number(data.limit) > 0)) || (data.since !== undefined && !(Number(data.since) >= 0))) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'limit must be a positive number and since a unix time in seconds'
+      });
+    }
+    if (!isSymbolAllowed(this.clientKeys.get(ws), data.symbol)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: ErrorCode.FORBIDDEN,
+        message: `Symbol ${data.symbol} is not allowed for this API key`,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+
+    let options: ChartOptions | undefined;
+    try {
+      options = normalizeChartOptions(data.options);
+    } catch (err) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: (err as Error).message,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+    const bars = this.barCache?.getBars(data.symbol, data.timeframe, options, {
+      limit: data.limit !== undefined ? Math.floor(Number(data.limit)) : undefined,
+      since: data.since !== undefined ? Number(data.since) : undefined,
+    });
+    if (!bars) {
+      return this.sendMessage(ws, {
+        type: MessageType.SNAPSHOT,
+        requestId: data.requestId,
+        success: false,
+        message: `No bars cached for ${data.symbol}/${data.timeframe}, it is not subscribed or has no data yet`,
+        symbol: data.symbol,
+        timeframe: data.timeframe,
+        options
+      });
+    }
+    this.sendMessage(ws, {
+      type: MessageType.SNAPSHOT,
+      requestId: data.requestId,
+      success: true,
+      symbol: data.symbol,
+      timeframe: data.timeframe,
+      options,
+      bars
+    });
+  }
+
+  // Handle replay session start request
+  private async handleReplayStart(ws: WebSocket, data: WSRequest) {
+    if (!data.symbol || !data.timeframe || !(Number(data.from) > 0)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Symbol, timeframe and from (unix seconds) are required for replay'
+      });
+    }
+    if (data.intervalMs !== undefined && !(Number(data.intervalMs) > 0)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'intervalMs must be a positive number'
+      });
+    }
+    if (!isSymbolAllowed(this.clientKeys.get(ws), data.symbol)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: ErrorCode.FORBIDDEN,
+        message: `Symbol ${data.symbol} is not allowed for this API key`,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+
+    const tvClient = getTradingViewClient();
+    if (!tvClient) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'TradingView client not available'
+      });
+    }
+
+    try {
+      const replay = await tvClient.startReplay(data.symbol, data.timeframe, {
+        from: Number(data.from),
+        intervalMs: data.intervalMs !== undefined ? Number(data.intervalMs) : undefined,
+        chartOptions: normalizeChartOptions(data.options),
+      });
+      // The client may have left while the replay was loading
+      if (!this.clients.has(ws)) {
+        tvClient.stopReplay(replay.id, 'client_disconnected');
+        return;
+      }
+      this.replayOwners.set(replay.id, ws);
+      const replays = this.clientReplays.get(ws) || new Set<string>();
+      replays.add(replay.id);
+      this.clientReplays.set(ws, replays);
+      this.sendMessage(ws, {
+        type: MessageType.REPLAY_START,
+        requestId: data.requestId,
+        success: true,
+        symbol: data.symbol,
+        timeframe: data.timeframe,
+        replay
+      });
+    } catch (err) {
+      logger.error('Replay start failed for %s/%s: %s', data.symbol, data.timeframe, (err as Error).message);
+      this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Failed to start replay: ${(err as Error).message}`,
+        symbol: data.symbol,
+        timeframe: data.timeframe
+      });
+    }
+  }
+
+  // Handle play/pause/step/stop of a replay session owned by the client
+  private async handleReplayControl(ws: WebSocket, data: WSRequest) {
+    const id = data.replayId;
+    if (!id || this.replayOwners.get(id) !== ws) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Replay session not found for this client'
+      });
+    }
+    const tvClient = getTradingViewClient();
+    if (!tvClient) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'TradingView client not available'
+      });
+    }
+
+    try {
+      let replay: ReplayInfo | null;
+      switch (data.action) {
+        case MessageType.REPLAY_PLAY:
+          replay = await tvClient.playReplay(id, data.intervalMs !== undefined ? Number(data.intervalMs) : undefined);
+          break;
+        case MessageType.REPLAY_PAUSE:
+          replay = await tvClient.pauseReplay(id);
+          break;
+        case MessageType.REPLAY_STEP:
+          replay = await tvClient.stepReplay(id, Math.max(1, Math.floor(Number(data.count) || 1)));
+          break;
+        default:
+          this.forgetReplay(id);
+          replay = tvClient.stopReplay(id);
+      }
+      this.sendMessage(ws, {
+        type: data.action,
+        requestId: data.requestId,
+        success: true,
+        replay: replay || undefined
+      });
+    } catch (err) {
+      logger.error('Replay %s failed for %s: %s', data.action, id, (err as Error).message);
+      this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Replay ${data.action} failed: ${(err as Error).message}`
+      });
+    }
+  }
+
+  // Drop ownership tracking of a replay session
+  private forgetReplay(id: string) {
+    const owner = this.replayOwners.get(id);
+    if (owner) this.clientReplays.get(owner)?.delete(id);
+    this.replayOwners.delete(id);
+  }
+
+  // Handle technical analysis request
+  private async handleTA(ws: WebSocket, data: WSRequest) {
+    if (!data.symbol) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Symbol is required for technical analysis'
+      });
+    }
+    if (!isSymbolAllowed(this.clientKeys.get(ws), data.symbol)) {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        code: ErrorCode.FORBIDDEN,
+        message: `Symbol ${data.symbol} is not allowed for this API key`,
+        symbol: data.symbol
+      });
+    }
+
+    try {
+      const analysis = await getTechnicalAnalysis(data.symbol);
+      this.sendMessage(ws, {
+        type: MessageType.TA,
+        requestId: data.requestId,
+        success: true,
+        symbol: data.symbol,
+        analysis
+      });
+    } catch (err) {
+      logger.error('Technical analysis request failed for %s: %s', data.symbol, (err as Error).message);
+      this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Failed to fetch technical analysis: ${(err as Error).message}`,
+        symbol: data.symbol
+      });
+    }
+  }
+
+  // Handle symbol search request
+  private async handleSearch(ws: WebSocket, data: WSRequest) {
+    if (!data.query || typeof data.query !== 'string') {
+      return this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: 'Query is required for search'
+      });
+    }
+
+    try {
+      const results = await searchSymbols(data.query, { type: data.type, exchange: data.exchange });
+      // Only show symbols the client's API key may use
+      const apiKey = this.clientKeys.get(ws);
+      this.sendMessage(ws, {
+        type: MessageType.SEARCH,
+        requestId: data.requestId,
+        success: true,
+        symbols: results.filter(r => isSymbolAllowed(apiKey, r.id))
+      });
+    } catch (err) {
+      logger.error('Symbol search failed for "%s": %s', data.query, (err as Error).message);
+      this.sendMessage(ws, {
+        type: MessageType.ERROR,
+        requestId: data.requestId,
+        success: false,
+        message: `Search failed: ${(err as Error).message}`
+      });
+    }
+  }
+
+  // Send message to client
+  private sendMessage(ws: WebSocket, data: WSResponse) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(data));
+    }
+  }
+
+  // Send bar to clients subscribed to its symbol/timeframe and to firehose clients
+  public broadcastBar(bar: Bar) {
+    const message = JSON.stringify({
+      type: MessageType.BAR,
+      bar
+    } as WSResponse);
+    
+    const recipients = new Set<WebSocket>();
+    this.firehoseClients.forEach((barMode, client) => {
+      // Firehose clients still only see symbols their API key allows
+      if (matchesBarMode(bar, barMode) && isSymbolAllowed(this.clientKeys.get(client), bar.symbol)) {
+        recipients.add(client);
+      }
+    });
+    const key = subscriptionKey(bar);
+    this.subscriptionClients.get(key)?.forEach(client => {
+      const barMode = this.clientSubscriptions.get(client)?.get(key) || config.websocket.barMode;
+      if (matchesBarMode(bar, barMode)) recipients.add(client);
+    });
+    
+    recipients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  }
+
+  // Send quote to subscribed clients, each with the fields it asked for
+  public broadcastQuote(quote: Quote) {
+    this.quoteClients.get(quote.symbol)?.forEach((client) => {
+      const fields = this.clientQuotes.get(client)?.get(quote.symbol) || config.quotes.fields;
+      const picked: Record<string, any> = {};
+      for (const field of fields) {
+        if (quote.fields[field] !== undefined) picked[field] = quote.fields[field];
+      }
+      this.sendMessage(client, {
+        type: MessageType.QUOTE,
+        quote: { ...quote, fields: picked }
+      });
+    });
+  }
+
+  // Send indicator value to the clients of the indicator, filtered by their bar mode
+  public broadcastIndicator(value: IndicatorValue) {
+    this.indicatorClients.get(value.id)?.forEach((client) => {
+      const mode = this.clientIndicators.get(client)?.get(value.id) || config.websocket.barMode;
+      if (matchesBarMode(value, mode)) {
+        this.sendMessage(client, { type: MessageType.INDICATOR, indicator: value });
+      }
+    });
+  }
+
+  /**
+   * Set the bar cache served by the snapshot action
+   */
+  public setBarCache(cache: BarCache) {
+    this.barCache = cache;
+  }
+
+  /**
+   * Set the subscription registry, whose entries owned by an API key count towards its quota
+   */
+  public setRegistry(registry: SubscriptionRegistry) {
+    this.registry = registry;
+  }
+
+  /**
+   * Answer the pending subscribe requests of a subscription once TradingView loaded its chart
+   * (error is null) or failed to. Failed subscriptions are removed from their clients.
+   */
+  public settleSubscription(subscription: Subscription, error: string | null) {
+    const key = subscriptionKey(subscription);
+    const waiters = this.pendingSubscriptions.get(key);
+    if (!waiters) return;
+    this.pendingSubscriptions.delete(key);
+    if (error !== null) {
+      logger.warn('Subscription %s failed, rolling back %d requests: %s', key, waiters.length, error);
+    }
+    waiters.forEach(resolve => resolve(error));
+  }
+
+  /**
+   * Notify the clients of a subscription that its TradingView chart reported an error.
+   * Their subscriptions are kept, TradingView may recover or the health monitor resubscribes.
+   */
+  public notifyChartError(subscription: Subscription, message: string) {
+    const key = subscriptionKey(subscription);
+    // Clients still waiting for the chart get the error as their subscribe reply
+    if (this.pendingSubscriptions.has(key)) return;
+    this.subscriptionClients.get(key)?.forEach((client) => {
+      this.sendMessage(client, {
+        type: MessageType.ERROR,
+        success: false,
+        message: `Chart error: ${message}`,
+        symbol: subscription.symbol,
+        timeframe: subscription.timeframe,
+        options: subscription.options
+      });
+    });
+  }
+
+  /**
+   * Answer the pending quote_subscribe requests of a symbol once TradingView sent its first
+   * quote (error is null) or failed to. A failed symbol is removed from its clients.
+   */
+  public settleQuote(symbol: string, error: string | null) {
+    const waiters = this.pendingQuotes.get(symbol);
+    if (!waiters) return;
+    this.pendingQuotes.delete(symbol);
+    if (error !== null) {
+      logger.warn('Quote subscription %s failed, rolling back %d requests: %s', symbol, waiters.length, error);
+      // The market does not exist, so there is nothing to unsubscribe from on TradingView
+      this.quoteClients.get(symbol)?.forEach(client => this.clientQuotes.get(client)?.delete(symbol));
+      this.quoteClients.delete(symbol);
+    }
+    waiters.forEach(resolve => resolve(error));
+  }
+
+  /**
+   * Notify the quote clients of a symbol whose TradingView market failed and drop their
+   * subscriptions, the market is already gone. Pending requests are answered by settleQuote().
+   */
+  public failQuote(symbol: string, message: string) {
+    if (this.pendingQuotes.has(symbol)) return;
+    const clients = this.quoteClients.get(symbol);
+    if (!clients) return;
+    clients.forEach((client) => {
+      this.clientQuotes.get(client)?.delete(symbol);
+      this.sendMessage(client, {
+        type: MessageType.ERROR,
+        success: false,
+        message: `Quote error: ${message}`,
+        symbol
+      });
+    });
+    this.quoteClients.delete(symbol);
+  }
+
+  /**
+   * Notify the clients of an indicator that failed on TradingView and drop their subscriptions
+   */
+  public failIndicator(id: string, message: string) {
+    const clients = this.indicatorClients.get(id);
+    if (!clients) return;
+    const subscription = this.indicatorSubscriptions.get(id);
+    clients.forEach((client) => {
+      this.clientIndicators.get(client)?.delete(id);
+      this.sendMessage(client, {
+        type: MessageType.ERROR,
+        success: false,
+        message: `Indicator failed: ${message}`,
+        symbol: subscription?.symbol,
+        timeframe: subscription?.timeframe,
+        indicatorId: id
+      });
+    });
+    this.indicatorClients.delete(id);
+    this.indicatorSubscriptions.delete(id);
+  }
+
+  // Send a replayed bar to the client owning the replay session only
+  public sendReplayBar(bar: Bar) {
+    const owner = bar.replayId ? this.replayOwners.get(bar.replayId) : undefined;
+    if (owner) {
+      this.sendMessage(owner, { type: MessageType.REPLAY_BAR, bar });
+    }
+  }
+
+  // Notify the owner that a replay session ended or was stopped by the server
+  public sendReplayEvent(type: MessageType.REPLAY_END | MessageType.REPLAY_STOP, replay: ReplayInfo, message?: string) {
+    const owner = this.replayOwners.get(replay.id);
+    if (!owner) return;
+    if (type === MessageType.REPLAY_STOP) this.forgetReplay(replay.id);
+    this.sendMessage(owner, { type, success: true, message, replay });
+  }
+
+  // Send a recommendation change to every authenticated client allowed to see the symbol
+  public broadcastTAChange(change: TAChange) {
+    this.clients.forEach((client) => {
+      if (isAuthRequired() && !this.clientKeys.has(client)) return;
+      if (!isSymbolAllowed(this.clientKeys.get(client), change.symbol)) return;
+      this.sendMessage(client, { type: MessageType.TA_CHANGE, change });
+    });
+  }
+
+  // Check if WebSocket clients are subscribed to bars of a subscription
+  public hasSubscribers(subscription: Subscription): boolean {
+    return (this.subscriptionClients.get(subscriptionKey(subscription))?.size || 0) > 0;
+  }
+
   // Get list of active subscriptions
   public getActiveSubscriptions(): Subscription[] {
     return Array.from(this.activeSubscriptions.values());
   }
 
   // Check if subscription exists
-  public hasSubscription(symbol: string, timeframe: string): boolean {
-    return this.activeSubscriptions.has(`${symbol}_${timeframe}`);
+  public hasSubscription(symbol: string, timeframe: string, options?: ChartOptions): boolean {
+    return this.activeSubscriptions.has(subscriptionKey({ symbol, timeframe, options }));
   }
 
   // Add subscription programmatically (without client request)
   public addSubscription(subscription: Subscription) {
-    const key = `${subscription.symbol}_${subscription.timeframe}`;
+    const key = subscriptionKey(subscription);
     if (!this.activeSubscriptions.has(key)) {
       this.activeSubscriptions.set(key, subscription);
       this.emit('subscribe', subscription);
@@ -404,11 +1659,12 @@ export class WebSocketServer extends EventEmitter {
   }
 
   // Remove subscription programmatically (without client request)
-  public removeSubscription(symbol: string, timeframe: string) {
-    const key = `${symbol}_${timeframe}`;
-    if (this.activeSubscriptions.has(key)) {
+  public removeSubscription(symbol: string, timeframe: string, options?: ChartOptions) {
+    const key = subscriptionKey({ symbol, timeframe, options });
+    const subscription = this.activeSubscriptions.get(key);
+    if (subscription) {
       this.activeSubscriptions.delete(key);
-      this.emit('unsubscribe', { symbol, timeframe });
+      this.emit('unsubscribe', subscription);
       return true;
     }
     return false;
@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import { BarAggregator } from '../src/aggregator';
+import { logger } from '../src/logger';
+import type { Bar, TradingViewClient } from '../src/tradingview';
+
+// TradingView client double: charts are subscribed right away and bars emitted by the test
+class FakeClient extends EventEmitter {
+  charts = new Set<string>();
+  recentBars: Bar[] = [];
+
+  async subscribe(subscription: { symbol: string; timeframe: string }): Promise<boolean> {
+    this.charts.add(`${subscription.symbol}_${subscription.timeframe}`);
+    return true;
+  }
+
+  async unsubscribe(symbol: string, timeframe: string): Promise<boolean> {
+    return this.charts.delete(`${symbol}_${timeframe}`);
+  }
+
+  hasSubscription(symbol: string, timeframe: string): boolean {
+    return this.charts.has(`${symbol}_${timeframe}`);
+  }
+
+  getRecentBars(): Bar[] {
+    return this.recentBars;
+  }
+}
+
+const SYMBOL = 'BINANCE:BTCUSDT';
+// Monday 2024-05-13 00:00 UTC
+const MONDAY = Date.UTC(2024, 4, 13) / 1000;
+
+function base(timeframe: string, time: number, price: number, isClosed = true, volume = 1): Bar {
+  return { symbol: SYMBOL, timeframe, time, open: price, high: price + 1, low: price - 1, close: price + 0.5, volume, isClosed };
+}
+
+describe('BarAggregator', () => {
+  let client: FakeClient;
+  let aggregator: BarAggregator;
+  let updates: Bar[];
+  let closed: Bar[];
+
+  beforeEach(() => {
+    client = new FakeClient();
+    aggregator = new BarAggregator(client as unknown as TradingViewClient);
+    updates = [];
+    closed = [];
+    aggregator.on('bar', (bar: Bar) => updates.push(bar));
+    aggregator.on('bar_closed', (bar: Bar) => closed.push(bar));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shares one base chart between timeframes', async () => {
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: '10', aggregate: true });
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: '15', aggregate: true, baseTimeframe: '5' });
+    expect(aggregator.getBaseTimeframe(SYMBOL, '10')).toBe('5');
+    expect(aggregator.getBaseSubscriptions()).toEqual([{ symbol: SYMBOL, timeframe: '5' }]);
+    expect(client.charts).toEqual(new Set([`${SYMBOL}_5`]));
+
+    await aggregator.unsubscribe(SYMBOL, '10');
+    expect(client.charts.size).toBe(1);
+    await aggregator.unsubscribe(SYMBOL, '15');
+    expect(client.charts.size).toBe(0);
+  });
+
+  it('rejects timeframes that are not whole multiples of the base', async () => {
+    jest.spyOn(logger, 'error').mockReturnValue(logger);
+    expect(await aggregator.subscribe({ symbol: SYMBOL, timeframe: '7', aggregate: true, baseTimeframe: '5' })).toBe(false);
+    expect(() => aggregator.chartOf({ symbol: SYMBOL, timeframe: '7', aggregate: true, baseTimeframe: '5' })).toThrow(/cannot be aggregated/);
+    expect(aggregator.chartOf({ symbol: SYMBOL, timeframe: '10', aggregate: true })).toEqual({ symbol: SYMBOL, timeframe: '5' });
+  });
+
+  it('combines base bars into buckets and closes them with their last base bar', async () => {
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: '10', aggregate: true, baseTimeframe: '5' });
+    const start = MONDAY + 600;
+    client.emit('bar', base('5', start, 100, false));
+    client.emit('bar_closed', base('5', start, 100, true, 2));
+    client.emit('bar', base('5', start + 300, 110, false));
+    expect(updates[updates.length - 1]).toMatchObject({ timeframe: '10', time: start, open: 100, high: 111, low: 99, close: 110.5, isClosed: false });
+    expect(closed).toEqual([]);
+
+    client.emit('bar_closed', base('5', start + 300, 110, true, 3));
+    expect(closed).toEqual([
+      { symbol: SYMBOL, timeframe: '10', time: start, open: 100, high: 111, low: 99, close: 110.5, volume: 5, isClosed: true },
+    ]);
+  });
+
+  it('seeds the first bucket with the bars the base chart already loaded', async () => {
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: '15', aggregate: true, baseTimeframe: '5' });
+    client.recentBars = [base('5', MONDAY - 300, 50), base('5', MONDAY, 90), base('5', MONDAY + 300, 95)];
+    client.emit('bar', base('5', MONDAY + 600, 100, false));
+    expect(updates[0]).toMatchObject({ time: MONDAY, open: 90, low: 89, high: 101, volume: 3 });
+  });
+
+  it('aligns weeks to Monday and months to the calendar in UTC', async () => {
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: 'W', aggregate: true });
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: 'M', aggregate: true });
+    // Thursday 2024-05-16
+    client.emit('bar', base('D', MONDAY + 3 * 86400, 100, false));
+    expect(updates.map(bar => [bar.timeframe, bar.time])).toEqual([
+      ['W', MONDAY],
+      ['M', Date.UTC(2024, 4, 1) / 1000],
+    ]);
+  });
+
+  // Known limitation: buckets follow UTC, not the session of the exchange
+  it('does not align buckets to the exchange session', async () => {
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: '240', aggregate: true, baseTimeframe: '60' });
+    // Hourly bars of a NASDAQ session opening at 09:30 New York time (13:30 UTC)
+    const open = MONDAY + 13.5 * 3600;
+    for (let hour = 0; hour < 7; hour++) {
+      client.emit('bar_closed', base('60', open + hour * 3600, 100 + hour));
+    }
+    // TradingView starts its 240 bars at the open (13:30 and 17:30 UTC), the aggregator at 12:00 and 16:00 UTC
+    expect(closed.map(bar => [bar.time, bar.open, bar.volume])).toEqual([
+      [MONDAY + 12 * 3600, 100, 3],
+      [MONDAY + 16 * 3600, 103, 4],
+    ]);
+  });
+
+  it('ignores late updates of a bucket that already closed', async () => {
+    await aggregator.subscribe({ symbol: SYMBOL, timeframe: '10', aggregate: true, baseTimeframe: '5' });
+    client.emit('bar', base('5', MONDAY + 600, 100, false));
+    client.emit('bar', base('5', MONDAY + 1200, 120, false));
+    expect(closed).toHaveLength(1);
+    client.emit('bar', base('5', MONDAY + 900, 130, false));
+    expect(updates[updates.length - 1].time).toBe(MONDAY + 1200);
+  });
+});
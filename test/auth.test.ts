@@ -0,0 +1,50 @@
+import { config } from '../src/config';
+import { isAuthRequired, findApiKey, isSymbolAllowed, isWithinQuota } from '../src/auth';
+
+describe('auth', () => {
+  const keys = config.websocket.auth.keys;
+
+  afterEach(() => {
+    keys.length = 0;
+  });
+
+  it('requires authentication only when keys are configured', () => {
+    expect(isAuthRequired()).toBe(false);
+    keys.push({ key: 'secret', name: 'ui' });
+    expect(isAuthRequired()).toBe(true);
+  });
+
+  it('finds the configured key of a token', () => {
+    keys.push({ key: 'secret', name: 'ui' });
+    expect(findApiKey('secret')?.name).toBe('ui');
+    expect(findApiKey('other')).toBeNull();
+    expect(findApiKey('')).toBeNull();
+    expect(findApiKey(undefined)).toBeNull();
+  });
+
+  it('allows every symbol without patterns', () => {
+    expect(isSymbolAllowed(null, 'NYSE:IBM')).toBe(true);
+    expect(isSymbolAllowed({ key: 'k' }, 'NYSE:IBM')).toBe(true);
+    expect(isSymbolAllowed({ key: 'k', allowedSymbols: [] }, 'NYSE:IBM')).toBe(true);
+  });
+
+  it('matches symbol patterns with wildcards, ignoring case', () => {
+    const apiKey = { key: 'k', allowedSymbols: ['BINANCE:*', 'NASDAQ:AAPL'] };
+    expect(isSymbolAllowed(apiKey, 'BINANCE:BTCUSDT')).toBe(true);
+    expect(isSymbolAllowed(apiKey, 'binance:ethusdt')).toBe(true);
+    expect(isSymbolAllowed(apiKey, 'NASDAQ:AAPL')).toBe(true);
+    expect(isSymbolAllowed(apiKey, 'NASDAQ:AAPL2')).toBe(false);
+    expect(isSymbolAllowed(apiKey, 'NYSE:IBM')).toBe(false);
+  });
+
+  it('treats other regular expression characters literally', () => {
+    expect(isSymbolAllowed({ key: 'k', allowedSymbols: ['FX:EUR.USD'] }, 'FX:EURXUSD')).toBe(false);
+  });
+
+  it('limits subscriptions to maxSubscriptions', () => {
+    expect(isWithinQuota(null, 1000)).toBe(true);
+    expect(isWithinQuota({ key: 'k' }, 1000)).toBe(true);
+    expect(isWithinQuota({ key: 'k', maxSubscriptions: 2 }, 1)).toBe(true);
+    expect(isWithinQuota({ key: 'k', maxSubscriptions: 2 }, 2)).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { validate, assertValid, type Schema } from '../src/schema';
+
+const SCHEMA: Schema = {
+  type: 'object',
+  required: ['name'],
+  fields: {
+    name: { type: 'string', nonEmpty: true },
+    port: { type: 'number', integer: true, min: 1, max: 65535 },
+    enabled: { type: 'boolean' },
+    mode: { type: 'enum', values: ['all', 'close'] },
+    tags: { type: 'array', items: { type: 'string' } },
+    upper: { type: 'custom', check: (value) => String(value).toUpperCase() },
+    extra: { type: 'object', fields: {}, open: true },
+  },
+};
+
+describe('validate', () => {
+  it('returns valid values, normalized by custom checks', () => {
+    const errors: string[] = [];
+    const value = validate({ name: 'a', port: 80, enabled: true, mode: 'close', tags: ['x'], upper: 'abc', extra: { any: 1 } }, SCHEMA, '', errors);
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ name: 'a', port: 80, enabled: true, mode: 'close', tags: ['x'], upper: 'ABC', extra: { any: 1 } });
+  });
+
+  it('reports every problem with its path', () => {
+    const errors: string[] = [];
+    validate({ port: 1.5, enabled: 'yes', mode: 'some', tags: ['x', 2], foo: 1 }, SCHEMA, 'settings', errors);
+    expect(errors).toEqual([
+      'settings.name: is required',
+      'settings.port: must be an integer, got 1.5',
+      'settings.enabled: must be true or false, got "yes"',
+      'settings.mode: must be one of: all, close, got "some"',
+      'settings.tags[1]: must be a string, got 2',
+      'settings.foo: unknown setting',
+    ]);
+  });
+
+  it('checks number bounds', () => {
+    const errors: string[] = [];
+    validate(0, { type: 'number', min: 1 }, 'port', errors);
+    validate(70000, { type: 'number', max: 65535 }, 'port', errors);
+    validate(Number.NaN, { type: 'number' }, 'port', errors);
+    expect(errors).toEqual(['port: must be at least 1, got 0', 'port: must be at most 65535, got 70000', 'port: must be a number, got NaN']);
+  });
+
+  it('reports failing custom checks with their message', () => {
+    const errors: string[] = [];
+    validate('x', { type: 'custom', check: () => { throw new Error('not good'); } }, 'value', errors);
+    expect(errors).toEqual(['value: not good']);
+  });
+});
+
+describe('assertValid', () => {
+  it('throws one error listing every problem', () => {
+    expect(() => assertValid({ port: 0 }, SCHEMA, 'config file test.yml')).toThrow(
+      'Invalid config file test.yml:\n  - name: is required\n  - port: must be at least 1, got 0'
+    );
+  });
+
+  it('returns the validated value', () => {
+    expect(assertValid({ name: 'a' }, SCHEMA, 'test')).toEqual({ name: 'a' });
+  });
+});
@@ -0,0 +1,6 @@
+import os from 'os';
+import path from 'path';
+
+// Keep the logger quiet and out of the repository, the config reads these on import
+process.env.LOG_LEVEL = 'error';
+process.env.LOG_FILE = path.join(os.tmpdir(), 'tv-fetcher-test.log');
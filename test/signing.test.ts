@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { signBody, barIdempotencyKey, indicatorIdempotencyKey, taChangeIdempotencyKey } from '../src/signing';
+import type { Bar, IndicatorValue } from '../src/tradingview';
+import type { TAChange } from '../src/ta';
+
+const bar: Bar = {
+  symbol: 'BINANCE:BTCUSDT', timeframe: '1', time: 1715860800,
+  open: 1, high: 2, low: 0.5, close: 1.5, volume: 10, isClosed: false,
+};
+
+describe('signBody', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', 'secret').update('1715860800.{"a":1}').digest('hex');
+    expect(signBody('secret', 1715860800, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it('depends on the timestamp', () => {
+    expect(signBody('secret', 1, 'body')).not.toBe(signBody('secret', 2, 'body'));
+  });
+});
+
+describe('idempotency keys', () => {
+  it('are stable for the same bar', () => {
+    expect(barIdempotencyKey(bar)).toBe(barIdempotencyKey({ ...bar }));
+    expect(barIdempotencyKey(bar)).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('differ between live revisions of a bar', () => {
+    expect(barIdempotencyKey(bar)).not.toBe(barIdempotencyKey({ ...bar, close: 1.6 }));
+  });
+
+  it('give a closed bar one key whatever its values', () => {
+    const closed = { ...bar, isClosed: true };
+    expect(barIdempotencyKey(closed)).toBe(barIdempotencyKey({ ...closed, close: 1.7, backfilled: true }));
+    expect(barIdempotencyKey(closed)).not.toBe(barIdempotencyKey(bar));
+  });
+
+  it('differ between charts with other options', () => {
+    expect(barIdempotencyKey(bar)).not.toBe(barIdempotencyKey({ ...bar, options: { type: 'HeikinAshi' } }));
+  });
+
+  it('cover indicator values and TA changes', () => {
+    const value: IndicatorValue = {
+      id: 'ind_1', symbol: 'BINANCE:BTCUSDT', timeframe: '60', indicator: 'RSI', time: 1715860800, values: { plot_0: 1 }, isClosed: true,
+    };
+    expect(indicatorIdempotencyKey(value)).toBe(indicatorIdempotencyKey({ ...value, values: { plot_0: 2 } }));
+    expect(indicatorIdempotencyKey({ ...value, isClosed: false })).not.toBe(indicatorIdempotencyKey({ ...value, isClosed: false, values: { plot_0: 2 } }));
+
+    const change = { symbol: 'BINANCE:BTCUSDT', timeframe: '60', time: 1715860800, previous: 'NEUTRAL', recommendation: 'BUY' } as TAChange;
+    expect(taChangeIdempotencyKey(change)).not.toBe(taChangeIdempotencyKey({ ...change, recommendation: 'SELL' }));
+  });
+});
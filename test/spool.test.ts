@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiskSpool, PushQueue, type SpoolRecord } from '../src/spool';
+import { logger } from '../src/logger';
+
+function record(n: number, time: number = Date.now()): SpoolRecord {
+  return { url: 'http://backend/bars', kind: 'bar', payload: { n }, time };
+}
+
+const payloads = (records: (SpoolRecord | null)[]) => records.map(r => (r?.payload as { n: number }).n);
+
+describe('DiskSpool', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spool-test-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const drain = (spool: DiskSpool) => {
+    const records: SpoolRecord[] = [];
+    let next = spool.peek();
+    while (next) {
+      records.push(next);
+      spool.shift(next);
+      next = spool.peek();
+    }
+    return records;
+  };
+
+  it('returns records first in, first out', () => {
+    const spool = new DiskSpool(dir, { sink: 'test', maxBytes: 1024 * 1024, maxAgeMs: 0 });
+    spool.open();
+    [1, 2, 3].forEach(n => spool.append(record(n)));
+    expect(spool.size()).toBe(3);
+    expect(payloads(drain(spool))).toEqual([1, 2, 3]);
+    expect(spool.size()).toBe(0);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('keeps records across restarts and skips a line cut by a crash', () => {
+    const spool = new DiskSpool(dir, { sink: 'test', maxBytes: 1024 * 1024, maxAgeMs: 0 });
+    spool.open();
+    [1, 2].forEach(n => spool.append(record(n)));
+    const [segment] = fs.readdirSync(dir);
+    fs.appendFileSync(path.join(dir, segment), '{"url":"http://backend');
+
+    const restarted = new DiskSpool(dir, { sink: 'test', maxBytes: 1024 * 1024, maxAgeMs: 0 });
+    restarted.open();
+    restarted.append(record(3));
+    expect(payloads(drain(restarted))).toEqual([1, 2, 3]);
+  });
+
+  it('drops records older than maxAgeMs', () => {
+    const spool = new DiskSpool(dir, { sink: 'test', maxBytes: 1024 * 1024, maxAgeMs: 60000 });
+    spool.open();
+    spool.append(record(1, Date.now() - 120000));
+    spool.append(record(2));
+    expect(payloads(drain(spool))).toEqual([2]);
+  });
+
+  it('drops the oldest segments beyond maxBytes', () => {
+    // Every dropped segment is logged as an error
+    jest.spyOn(logger, 'error').mockReturnValue(logger);
+    const spool = new DiskSpool(dir, { sink: 'test', maxBytes: 400, maxAgeMs: 0 });
+    spool.open();
+    for (let n = 1; n <= 20; n++) spool.append(record(n));
+    const delivered = payloads(drain(spool));
+    expect(delivered.length).toBeLessThan(20);
+    expect(delivered[delivered.length - 1]).toBe(20);
+    expect(delivered).toEqual([...delivered].sort((a, b) => a - b));
+  });
+});
+
+describe('PushQueue', () => {
+  let dir: string;
+  let spool: DiskSpool;
+  let queue: PushQueue | null;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spool-test-'));
+    spool = new DiskSpool(dir, { sink: 'test', maxBytes: 1024 * 1024, maxAgeMs: 0 });
+    spool.open();
+    queue = null;
+  });
+
+  afterEach(() => {
+    queue?.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('sends records right away while the backend is up', async () => {
+    const sent: number[] = [];
+    queue = new PushQueue(spool, async (r) => { sent.push((r.payload as { n: number }).n); return true; }, 50);
+    expect(await queue.push('u', 'bar', { n: 1 })).toBe(true);
+    expect(sent).toEqual([1]);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('spools every record behind a failed send and replays them in order', async () => {
+    let up = false;
+    const delivered: number[] = [];
+    queue = new PushQueue(spool, async (r) => {
+      const { n } = r.payload as { n: number };
+      // The first send is the slowest, later ones must not overtake it
+      await wait(n === 1 ? 30 : 1);
+      if (!up) return false;
+      delivered.push(n);
+      return true;
+    }, 50);
+
+    const results = await Promise.all([1, 2, 3].map(n => queue!.push('u', 'bar', { n })));
+    expect(results).toEqual([false, false, false]);
+    expect(queue.size()).toBe(3);
+
+    up = true;
+    await wait(200);
+    expect(delivered).toEqual([1, 2, 3]);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('keeps sends in order while one is in flight', async () => {
+    const delivered: number[] = [];
+    queue = new PushQueue(spool, async (r) => {
+      const { n } = r.payload as { n: number };
+      await wait(n === 1 ? 30 : 1);
+      delivered.push(n);
+      return true;
+    }, 50);
+    await Promise.all([1, 2, 3].map(n => queue!.push('u', 'bar', { n })));
+    expect(delivered).toEqual([1, 2, 3]);
+  });
+});
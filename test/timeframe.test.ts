@@ -0,0 +1,61 @@
+import { parseTimeframe, formatTimeframe, normalizeTimeframe, timeframeSeconds, timeframeDurationMs } from '../src/timeframe';
+
+describe('parseTimeframe', () => {
+  it('parses TradingView timeframes', () => {
+    expect(parseTimeframe('1')).toEqual({ unit: 'minute', count: 1 });
+    expect(parseTimeframe('240')).toEqual({ unit: 'minute', count: 240 });
+    expect(parseTimeframe('5S')).toEqual({ unit: 'second', count: 5 });
+    expect(parseTimeframe('D')).toEqual({ unit: 'day', count: 1 });
+    expect(parseTimeframe('3D')).toEqual({ unit: 'day', count: 3 });
+    expect(parseTimeframe('W')).toEqual({ unit: 'week', count: 1 });
+    expect(parseTimeframe('12M')).toEqual({ unit: 'month', count: 12 });
+  });
+
+  it('parses human timeframes, hours as minutes', () => {
+    expect(parseTimeframe('5m')).toEqual({ unit: 'minute', count: 5 });
+    expect(parseTimeframe('4h')).toEqual({ unit: 'minute', count: 240 });
+    expect(parseTimeframe('1d')).toEqual({ unit: 'day', count: 1 });
+    expect(parseTimeframe('2w')).toEqual({ unit: 'week', count: 2 });
+    expect(parseTimeframe(15)).toEqual({ unit: 'minute', count: 15 });
+  });
+
+  it('tells minutes from months by case', () => {
+    expect(parseTimeframe('3m').unit).toBe('minute');
+    expect(parseTimeframe('3M').unit).toBe('month');
+  });
+
+  it.each(['', '0', '1x', 'h1', '-5', '1.5', 'DD'])('rejects %p', (value) => {
+    expect(() => parseTimeframe(value)).toThrow(/Invalid timeframe/);
+  });
+});
+
+describe('formatTimeframe and normalizeTimeframe', () => {
+  it('formats timeframes the way TradingView names them', () => {
+    expect(formatTimeframe({ unit: 'second', count: 30 })).toBe('30S');
+    expect(formatTimeframe({ unit: 'minute', count: 60 })).toBe('60');
+    expect(formatTimeframe({ unit: 'day', count: 1 })).toBe('D');
+    expect(formatTimeframe({ unit: 'week', count: 2 })).toBe('2W');
+    expect(formatTimeframe({ unit: 'month', count: 1 })).toBe('M');
+  });
+
+  it('gives equivalent timeframes the same name', () => {
+    expect(normalizeTimeframe('1h')).toBe('60');
+    expect(normalizeTimeframe('60')).toBe('60');
+    expect(normalizeTimeframe('1d')).toBe('D');
+    expect(normalizeTimeframe('1D')).toBe('D');
+    expect(normalizeTimeframe('5s')).toBe('5S');
+  });
+});
+
+describe('timeframe durations', () => {
+  it('gives exact lengths except for months', () => {
+    expect(timeframeSeconds({ unit: 'minute', count: 15 })).toBe(900);
+    expect(timeframeSeconds({ unit: 'week', count: 1 })).toBe(7 * 86400);
+    expect(timeframeSeconds({ unit: 'month', count: 1 })).toBeNull();
+  });
+
+  it('counts months as 30 days for expected bar intervals', () => {
+    expect(timeframeDurationMs('60')).toBe(3600 * 1000);
+    expect(timeframeDurationMs('M')).toBe(30 * 86400 * 1000);
+  });
+});
@@ -365,6 +365,7 @@ module.exports = {
    * @prop {string} signature User session signature
    * @prop {string} privateChannel User private channel
    * @prop {string} authToken User auth token
+   * @prop {string} plan User subscription plan (empty for free accounts)
    * @prop {Date} joinDate Account creation date
    */
 
@@ -415,6 +416,7 @@ module.exports = {
       sessionHash: data.user.session_hash,
       privateChannel: data.user.private_channel,
       authToken: data.user.auth_token,
+      plan: data.user.pro_plan || '',
       joinDate: new Date(data.user.date_joined),
     };
   },
@@ -454,6 +456,7 @@ module.exports = {
         sessionHash: /"session_hash":"(.*?)"/.exec(data)?.[1],
         privateChannel: /"private_channel":"(.*?)"/.exec(data)?.[1],
         authToken: /"auth_token":"(.*?)"/.exec(data)?.[1],
+        plan: /"pro_plan":"(.*?)"/.exec(data)?.[1] || '',
         joinDate: new Date(/"date_joined":"(.*?)"/.exec(data)?.[1] || 0),
       };
     }